@@ -0,0 +1,67 @@
+import * as logging from '@nr1e/logging';
+import {XcorPlatformClient} from './xcorplatform-client.js';
+import {BatchProgress} from './batch.js';
+import {
+  CancelledError,
+  ConflictError,
+  RequestValidationError,
+} from './errors.js';
+import {CreateOrgCommand, GetOrgCommand, InviteCommand} from './types/index.js';
+import {FakeXcorPlatform, MockTransport} from './testing/index.js';
+
+beforeAll(async () => {
+  await logging.initialize({svc: 'xcorplatform-client', level: 'silent'});
+});
+
+test('Batch limits concurrency and returns ordered results', async () => {
+  const platform = new FakeXcorPlatform();
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const transport = new MockTransport(async request => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    inFlight--;
+    return platform.handle(request);
+  });
+  const client = new XcorPlatformClient({transport});
+  const progress: BatchProgress[] = [];
+  const result = await client.batch(
+    [
+      ...['org-1', 'org-2', 'org-3', 'org-1', 'org-4'].map(
+        id => new CreateOrgCommand({id, name: id})
+      ),
+      new CreateOrgCommand({id: 'x', name: 'X'}),
+    ],
+    {concurrency: 2, onProgress: p => progress.push(p)}
+  );
+  expect(maxInFlight).toBe(2);
+  expect(result.responses.map(r => r.httpStatus)).toEqual([
+    201, 201, 201, 409, 201, 0,
+  ]);
+  expect(result.responses[3].error).toBeInstanceOf(ConflictError);
+  expect(result.responses[5].error).toBeInstanceOf(RequestValidationError);
+  expect(result).toMatchObject({succeeded: 4, failed: 2, skipped: 0});
+  expect(progress.map(p => p.completed)).toEqual([1, 2, 3, 4, 5, 6]);
+  expect(progress[5]).toMatchObject({total: 6, succeeded: 4, failed: 2});
+});
+
+test('Batch runs a mix of commands and stops on error', async () => {
+  const platform = new FakeXcorPlatform({orgs: [{id: 'acme', name: 'Acme'}]});
+  const client = new XcorPlatformClient({transport: platform.transport()});
+  const result = await client.batch(
+    [
+      new GetOrgCommand({id: 'acme'}),
+      new InviteCommand({email: 'a@example.com', orgId: 'acme'}),
+      new GetOrgCommand({id: 'missing'}),
+      new GetOrgCommand({id: 'acme'}),
+    ],
+    {concurrency: 1, stopOnError: true}
+  );
+  expect(result.responses[0].data).toEqual({id: 'acme', name: 'Acme'});
+  expect(result.responses[1].httpStatus).toBe(201);
+  expect(result.responses[2].httpStatus).toBe(404);
+  expect(result.responses[3].error).toBeInstanceOf(CancelledError);
+  expect(result).toMatchObject({succeeded: 2, failed: 1, skipped: 1});
+  expect(platform.invites.size).toBe(1);
+});
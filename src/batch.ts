@@ -0,0 +1,173 @@
+import {CommandRequest, CommandResponse} from './types/index.js';
+import {CancelledError} from './errors.js';
+
+/**
+ * The default number of commands a batch sends at the same time.
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * Reported after each command in a batch completes.
+ */
+export interface BatchProgress {
+  /**
+   * The position of the command that completed in the batch.
+   */
+  readonly index: number;
+  readonly response: CommandResponse<unknown>;
+  readonly completed: number;
+  readonly succeeded: number;
+  readonly failed: number;
+  readonly total: number;
+}
+
+/**
+ * Options used to run a batch of commands.
+ */
+export interface BatchOptions {
+  /**
+   * The maximum number of commands sent at the same time. Default is 4.
+   */
+  readonly concurrency?: number;
+  /**
+   * If true, no further commands are started after a command fails. Commands already in flight complete and
+   * those never started are reported as skipped. Default is false.
+   */
+  readonly stopOnError?: boolean;
+  /**
+   * Called after each command completes, in the order they complete.
+   */
+  readonly onProgress?: (progress: BatchProgress) => void;
+  /**
+   * The number of milliseconds each command may take before it is aborted. Overrides the client default.
+   */
+  readonly timeout?: number;
+  /**
+   * A signal used to cancel the batch. Commands in flight are cancelled and those never started are skipped.
+   */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * The outcome of a batch of commands.
+ *
+ * @template Res - The type of the response data.
+ */
+export interface BatchResult<Res> {
+  /**
+   * The response to each command in the same order as the commands. Skipped commands have a CancelledError.
+   */
+  readonly responses: CommandResponse<Res>[];
+  readonly succeeded: number;
+  readonly failed: number;
+  /**
+   * The number of commands never sent because of stopOnError or the signal.
+   */
+  readonly skipped: number;
+}
+
+/**
+ * The type of the response data of a command, or a union of them for a union of commands.
+ */
+export type ResponseDataOf<C> =
+  C extends CommandRequest<unknown, infer Res> ? Res : never;
+
+type Send = (
+  command: CommandRequest<unknown, unknown>,
+  options: {timeout?: number; signal?: AbortSignal}
+) => Promise<CommandResponse<unknown>>;
+
+/**
+ * Sends each command with at most the configured number in flight, collecting a response for every command.
+ * Errors thrown while sending a command, such as a ResponseValidationError, are reported as that command
+ * failing rather than thrown.
+ *
+ * @param send Sends a single command
+ * @param commands The commands to send
+ * @param options Options for the batch
+ */
+export async function runBatch<C extends CommandRequest<unknown, unknown>>(
+  send: Send,
+  commands: C[],
+  options?: BatchOptions
+): Promise<BatchResult<ResponseDataOf<C>>> {
+  const concurrency = Math.max(
+    1,
+    Math.floor(options?.concurrency ?? DEFAULT_BATCH_CONCURRENCY)
+  );
+  const responses: (CommandResponse<unknown> | undefined)[] = new Array(
+    commands.length
+  ).fill(undefined);
+  let nextIndex = 0;
+  let succeeded = 0;
+  let failed = 0;
+  let stopped = false;
+
+  const sendOne = async (index: number) => {
+    try {
+      return await send(commands[index], {
+        timeout: options?.timeout,
+        signal: options?.signal,
+      });
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      const httpStatus = (err as {httpStatus?: unknown}).httpStatus;
+      return {
+        error,
+        httpStatus: typeof httpStatus === 'number' ? httpStatus : 0,
+      };
+    }
+  };
+
+  const worker = async () => {
+    while (
+      nextIndex < commands.length &&
+      !stopped &&
+      !options?.signal?.aborted
+    ) {
+      const index = nextIndex++;
+      const response = await sendOne(index);
+      responses[index] = response;
+      if (response.error) {
+        failed++;
+        stopped ||= options?.stopOnError === true;
+      } else {
+        succeeded++;
+      }
+      options?.onProgress?.({
+        index,
+        response,
+        completed: succeeded + failed,
+        succeeded,
+        failed,
+        total: commands.length,
+      });
+    }
+  };
+
+  await Promise.all(
+    Array.from({length: Math.min(concurrency, commands.length)}, worker)
+  );
+
+  let skipped = 0;
+  const results = responses.map((response, index) => {
+    if (response !== undefined) {
+      return response;
+    }
+    skipped++;
+    const {method, path} = commands[index].props;
+    return {
+      error: new CancelledError(
+        {method, path},
+        'Skipped because the batch was stopped'
+      ),
+      httpStatus: 0,
+    };
+  });
+  return {
+    responses: results as CommandResponse<ResponseDataOf<C>>[],
+    succeeded,
+    failed,
+    skipped,
+  };
+}
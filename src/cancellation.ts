@@ -0,0 +1,112 @@
+/**
+ * Combines an optional caller supplied AbortSignal with an optional timeout into a single signal for a call.
+ */
+export class CallSignal {
+  protected readonly controller = new AbortController();
+  protected readonly parent?: AbortSignal;
+  protected readonly timer?: ReturnType<typeof setTimeout>;
+  protected readonly onParentAbort = () => this.controller.abort();
+  protected expired = false;
+
+  /**
+   * Create a new CallSignal.
+   *
+   * @param timeout The number of milliseconds before the call is aborted. No timeout is applied if undefined or 0.
+   * @param parent The caller supplied signal.
+   */
+  constructor(timeout?: number, parent?: AbortSignal) {
+    this.parent = parent;
+    if (parent?.aborted) {
+      this.controller.abort();
+    } else {
+      parent?.addEventListener('abort', this.onParentAbort);
+    }
+    if (timeout) {
+      this.timer = setTimeout(() => {
+        this.expired = true;
+        this.controller.abort();
+      }, timeout);
+    }
+  }
+
+  /**
+   * The signal to pass to anything the call waits on.
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * True if the call was aborted because the timeout elapsed.
+   */
+  get timedOut(): boolean {
+    return this.expired;
+  }
+
+  /**
+   * Releases the timer and the listener on the parent signal. Must be called when the call completes.
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.parent?.removeEventListener('abort', this.onParentAbort);
+  }
+}
+
+/**
+ * Sleep for a given amount of time, resolving early if the signal is aborted.
+ *
+ * @param ms The number of milliseconds to sleep
+ * @param signal The signal that ends the sleep
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Waits for a promise, rejecting early if the signal is aborted. The promise itself is not cancelled which
+ * allows it to be shared between callers with different signals.
+ *
+ * @param promise The promise to wait for
+ * @param signal The signal that ends the wait
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal === undefined) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort);
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (err: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+}
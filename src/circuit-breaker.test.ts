@@ -0,0 +1,174 @@
+import * as logging from '@nr1e/logging';
+import {CircuitBreaker, CircuitState} from './circuit-breaker.js';
+import {XcorPlatformClient} from './xcorplatform-client.js';
+import {
+  CancelledError,
+  CircuitOpenError,
+  NetworkError,
+  ServerError,
+} from './errors.js';
+import {StaticTokenProvider} from './token-providers.js';
+import {TransportError} from './transport.js';
+import {MockTransport} from './testing/index.js';
+import {GetOrgCommand, MediaType} from './types/index.js';
+
+// The jest global is not injected into ES modules
+const timers = (import.meta as unknown as {jest: typeof jest}).jest;
+
+beforeAll(async () => {
+  await logging.initialize({svc: 'xcorplatform-client', level: 'silent'});
+});
+
+beforeEach(() => {
+  timers.useFakeTimers();
+});
+
+afterEach(() => {
+  timers.useRealTimers();
+});
+
+test('Opens after consecutive failures and half-opens after the cooldown', () => {
+  const changes: string[] = [];
+  const breaker = new CircuitBreaker({
+    failureThreshold: 2,
+    cooldown: 1000,
+    onStateChange: (state, previous) => changes.push(`${previous}>${state}`),
+  });
+  breaker.recordFailure();
+  breaker.recordSuccess();
+  breaker.recordFailure();
+  expect(breaker.status()).toEqual({
+    state: 'closed',
+    consecutiveFailures: 1,
+    retryAfter: undefined,
+  });
+  breaker.recordFailure();
+  expect(breaker.allowRequest()).toBeUndefined();
+  timers.advanceTimersByTime(400);
+  expect(breaker.status()).toEqual({
+    state: 'open',
+    consecutiveFailures: 2,
+    retryAfter: 600,
+  });
+  timers.advanceTimersByTime(600);
+  expect(breaker.state).toBe('half-open');
+  const trial = breaker.allowRequest();
+  expect(trial).toEqual({trial: true});
+  expect(breaker.allowRequest()).toBeUndefined();
+  breaker.recordFailure(trial);
+  expect(breaker.state).toBe('open');
+  timers.advanceTimersByTime(1000);
+  const abandoned = breaker.allowRequest();
+  expect(abandoned).toEqual({trial: true});
+  breaker.release(abandoned);
+  const next = breaker.allowRequest();
+  expect(next).toEqual({trial: true});
+  breaker.recordSuccess(next);
+  expect(breaker.status()).toEqual({
+    state: 'closed',
+    consecutiveFailures: 0,
+    retryAfter: undefined,
+  });
+  expect(changes).toEqual([
+    'closed>open',
+    'open>half-open',
+    'half-open>open',
+    'open>half-open',
+    'half-open>closed',
+  ]);
+});
+
+test('Only the holder of the trial permit can release it', () => {
+  const breaker = new CircuitBreaker({failureThreshold: 1, cooldown: 1000});
+  const stale = breaker.allowRequest();
+  expect(stale).toEqual({trial: false});
+  breaker.recordFailure(stale);
+  timers.advanceTimersByTime(1000);
+  const trial = breaker.allowRequest();
+  expect(trial?.trial).toBe(true);
+  breaker.release(stale);
+  breaker.release({trial: true});
+  expect(breaker.allowRequest()).toBeUndefined();
+  breaker.release(trial);
+  breaker.release(trial);
+  expect(breaker.allowRequest()?.trial).toBe(true);
+});
+
+test('Fails calls fast while the circuit is open', async () => {
+  let status = 503;
+  const transport = new MockTransport(() => {
+    if (status === 0) {
+      throw new TransportError('connect ECONNREFUSED', 'ECONNREFUSED');
+    }
+    return {
+      status,
+      headers: {'content-type': MediaType.GET_ORG_RESPONSE},
+      data: {id: 'acme', name: 'Acme'},
+    };
+  });
+  const states: CircuitState[] = [];
+  const client = new XcorPlatformClient({
+    transport,
+    tokenProvider: new StaticTokenProvider('abc'),
+    retry: {maxAttempts: 5, baseDelay: 10, jitter: 0},
+    circuitBreaker: {
+      failureThreshold: 3,
+      cooldown: 5000,
+      onStateChange: state => states.push(state),
+    },
+  });
+  const failing = client.send(new GetOrgCommand({id: 'acme'}));
+  await timers.advanceTimersByTimeAsync(100);
+  const response = await failing;
+  expect(response.error).toBeInstanceOf(ServerError);
+  expect(response.attempts).toBe(3);
+  expect(client.circuitBreaker?.state).toBe('open');
+
+  const fast = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(fast.error).toBeInstanceOf(CircuitOpenError);
+  expect((fast.error as CircuitOpenError).retryAfter).toBeLessThanOrEqual(5000);
+  expect(fast.httpStatus).toBe(0);
+  expect(transport.requests).toHaveLength(3);
+
+  await timers.advanceTimersByTimeAsync(5000);
+  status = 0;
+  const trial = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(trial.error).toBeInstanceOf(NetworkError);
+  expect(trial.attempts).toBe(1);
+  expect(client.circuitBreaker?.status().state).toBe('open');
+
+  await timers.advanceTimersByTimeAsync(5000);
+  status = 200;
+  expect(await client.orgs.get('acme')).toEqual({id: 'acme', name: 'Acme'});
+  expect(states).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+});
+
+test('Retries cancelled while waiting do not hold the trial', async () => {
+  let status = 503;
+  const transport = new MockTransport(() => ({
+    status,
+    headers: {'content-type': MediaType.GET_ORG_RESPONSE},
+    data: {id: 'acme', name: 'Acme'},
+  }));
+  const client = new XcorPlatformClient({
+    transport,
+    tokenProvider: new StaticTokenProvider('abc'),
+    retry: {maxAttempts: 3, baseDelay: 100, jitter: 0},
+    circuitBreaker: {failureThreshold: 2, cooldown: 50},
+  });
+  const controller = new AbortController();
+  const retrying = client.send(new GetOrgCommand({id: 'acme'}), {
+    signal: controller.signal,
+  });
+  await timers.advanceTimersByTimeAsync(0);
+  client.circuitBreaker?.recordFailure();
+  await timers.advanceTimersByTimeAsync(60);
+  expect(client.circuitBreaker?.state).toBe('half-open');
+  controller.abort();
+  expect((await retrying).error).toBeInstanceOf(CancelledError);
+  expect(transport.requests).toHaveLength(1);
+
+  status = 200;
+  expect(await client.orgs.get('acme')).toEqual({id: 'acme', name: 'Acme'});
+  expect(client.circuitBreaker?.state).toBe('closed');
+});
@@ -0,0 +1,179 @@
+/**
+ * The state of a circuit breaker. Requests are sent while closed, fail fast while open and a single trial
+ * request is sent while half-open.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * CircuitBreakerConfig is used to configure when the circuit opens and how long it stays open.
+ */
+export interface CircuitBreakerConfig {
+  /**
+   * The number of consecutive 5xx responses or network failures that open the circuit. Default is 5.
+   */
+  readonly failureThreshold?: number;
+  /**
+   * The number of milliseconds the circuit stays open before a trial request is sent. Default is 30000.
+   */
+  readonly cooldown?: number;
+  /**
+   * Called when the circuit changes state.
+   */
+  readonly onStateChange?: (
+    state: CircuitState,
+    previous: CircuitState
+  ) => void;
+}
+
+/**
+ * The current state of a CircuitBreaker, such as for a health check.
+ */
+export interface CircuitBreakerStatus {
+  readonly state: CircuitState;
+  readonly consecutiveFailures: number;
+  /**
+   * The number of milliseconds until a trial request is sent if the circuit is open.
+   */
+  readonly retryAfter?: number;
+}
+
+/**
+ * Permission to send a single request returned by CircuitBreaker.allowRequest. Pass it back when recording the
+ * outcome of the request so only its holder can end the trial of a half-open circuit.
+ */
+export interface CircuitPermit {
+  /**
+   * True if the request is the trial request of a half-open circuit.
+   */
+  readonly trial: boolean;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN = 30000;
+
+/**
+ * Stops sending requests to an API that is failing. The circuit opens after failureThreshold consecutive failures
+ * and requests fail fast until the cooldown elapses. The circuit then half-opens and lets a single trial request
+ * through, closing if it succeeds and opening again if it fails.
+ */
+export class CircuitBreaker {
+  readonly failureThreshold: number;
+  readonly cooldown: number;
+  protected current: CircuitState = 'closed';
+  protected failures = 0;
+  protected openedAt = 0;
+  protected trial?: CircuitPermit;
+  protected onStateChange?: CircuitBreakerConfig['onStateChange'];
+
+  /**
+   * Create a new CircuitBreaker that starts closed.
+   *
+   * @param config When the circuit opens and how long it stays open
+   */
+  constructor(config?: CircuitBreakerConfig) {
+    this.failureThreshold = Math.max(
+      1,
+      config?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD
+    );
+    this.cooldown = config?.cooldown ?? DEFAULT_COOLDOWN;
+    this.onStateChange = config?.onStateChange;
+  }
+
+  protected transition(state: CircuitState): void {
+    const previous = this.current;
+    if (state === 'open') {
+      this.openedAt = Date.now();
+    }
+    if (state !== previous) {
+      this.current = state;
+      this.onStateChange?.(state, previous);
+    }
+  }
+
+  /**
+   * The state of the circuit. An open circuit half-opens once the cooldown has elapsed.
+   */
+  get state(): CircuitState {
+    if (
+      this.current === 'open' &&
+      Date.now() - this.openedAt >= this.cooldown
+    ) {
+      this.transition('half-open');
+    }
+    return this.current;
+  }
+
+  /**
+   * Returns a permit if a request may be sent or undefined if not. While half-open only the first caller gets a
+   * permit until the outcome of the trial request is recorded or its permit is released.
+   */
+  allowRequest(): CircuitPermit | undefined {
+    switch (this.state) {
+      case 'closed':
+        return {trial: false};
+      case 'open':
+        return undefined;
+      case 'half-open':
+        if (this.trial !== undefined) {
+          return undefined;
+        }
+        this.trial = {trial: true};
+        return this.trial;
+    }
+  }
+
+  /**
+   * Records a request that received a response the API did not fail to produce, closing the circuit.
+   *
+   * @param permit The permit the request was sent with
+   */
+  recordSuccess(permit?: CircuitPermit): void {
+    this.failures = 0;
+    this.release(permit);
+    this.transition('closed');
+  }
+
+  /**
+   * Records a 5xx response or network failure, opening the circuit if the threshold is reached or the trial
+   * request failed.
+   *
+   * @param permit The permit the request was sent with
+   */
+  recordFailure(permit?: CircuitPermit): void {
+    this.failures++;
+    this.release(permit);
+    if (
+      this.current === 'half-open' ||
+      (this.current === 'closed' && this.failures >= this.failureThreshold)
+    ) {
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Records a request that ended without an outcome, such as one that was cancelled, so another trial request may
+   * be sent while half-open. Permits other than the current trial are ignored, so releasing more than once is safe.
+   *
+   * @param permit The permit the request was sent with
+   */
+  release(permit?: CircuitPermit): void {
+    if (permit !== undefined && permit === this.trial) {
+      this.trial = undefined;
+    }
+  }
+
+  /**
+   * The current state of the circuit.
+   */
+  status(): CircuitBreakerStatus {
+    const state = this.state;
+    return {
+      state,
+      consecutiveFailures: this.failures,
+      retryAfter:
+        state === 'open'
+          ? this.openedAt + this.cooldown - Date.now()
+          : undefined,
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import {mkdtemp, rm, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import * as logging from '@nr1e/logging';
+import * as yaml from 'js-yaml';
+import {FakeXcorPlatform} from '../testing/index.js';
+import {
+  CancelledError,
+  ConflictError,
+  NetworkError,
+  PreconditionFailedError,
+  TimeoutError,
+} from '../errors.js';
+import {ExitCode, exitCodeOf, runCli} from './cli.js';
+
+let directory: string;
+
+beforeAll(async () => {
+  await logging.initialize({svc: 'xcorplatform-client', level: 'silent'});
+  directory = await mkdtemp(join(tmpdir(), 'xcor-cli-'));
+});
+
+afterAll(async () => {
+  await rm(directory, {recursive: true, force: true});
+});
+
+async function xcor(
+  platform: FakeXcorPlatform,
+  args: string[],
+  env?: Record<string, string>
+): Promise<{code: number; stdout: string; stderr: string}> {
+  let stdout = '';
+  let stderr = '';
+  const code = await runCli(args, {
+    env: {
+      XCOR_CONFIG_FILE: join(directory, 'missing.json'),
+      XCOR_ACCESS_TOKEN: 'token',
+      ...env,
+    },
+    stdout: text => (stdout += text),
+    stderr: text => (stderr += text),
+    transport: platform.transport(),
+  });
+  return {code, stdout, stderr};
+}
+
+test('Manages orgs and prints results in each format', async () => {
+  const platform = new FakeXcorPlatform({accessToken: 'token'});
+  expect(
+    await xcor(platform, ['orgs', 'create', '--id', 'acme', '--name', 'Acme'])
+  ).toEqual({code: ExitCode.OK, stdout: '', stderr: ''});
+  expect((await xcor(platform, ['orgs', 'get', 'acme'])).stdout).toBe(
+    'id    acme\nname  Acme\n'
+  );
+  const json = await xcor(platform, ['orgs', 'get', 'acme', '-o', 'json']);
+  expect(JSON.parse(json.stdout)).toEqual({id: 'acme', name: 'Acme'});
+  const yamlOutput = await xcor(platform, [
+    'orgs',
+    'get',
+    'acme',
+    '--output=yaml',
+  ]);
+  expect(yaml.load(yamlOutput.stdout)).toEqual({id: 'acme', name: 'Acme'});
+  await xcor(platform, ['orgs', 'update', '--id', 'acme', '--name', 'Acme Co']);
+  expect(platform.orgs.get('acme')?.name).toBe('Acme Co');
+  await xcor(platform, ['orgs', 'delete', 'acme']);
+  expect(platform.orgs.has('acme')).toBe(false);
+});
+
+test('Find requests every page', async () => {
+  const platform = new FakeXcorPlatform({
+    pageSize: 2,
+    orgs: ['acme-1', 'acme-2', 'acme-3', 'beta-1'].map(id => ({id, name: id})),
+  });
+  const result = await xcor(platform, [
+    'orgs',
+    'find',
+    '--org-id',
+    'root',
+    '--id-starts-with',
+    'acme',
+  ]);
+  expect(result.stdout).toBe(
+    'ID      NAME\nacme-1  acme-1\nacme-2  acme-2\nacme-3  acme-3\n'
+  );
+  const limited = await xcor(platform, [
+    'orgs',
+    'find',
+    '--org-id',
+    'root',
+    '--max-items',
+    '3',
+    '-o',
+    'json',
+  ]);
+  expect(JSON.parse(limited.stdout)).toHaveLength(3);
+});
+
+test('Exits with the code matching the error', async () => {
+  const platform = new FakeXcorPlatform({
+    accessToken: 'token',
+    orgs: [{id: 'acme', name: 'Acme'}],
+  });
+  const missing = await xcor(platform, ['orgs', 'get', 'missing']);
+  expect(missing.code).toBe(ExitCode.NOT_FOUND);
+  expect(missing.stderr).toMatch(/^Error: /);
+  expect(
+    (await xcor(platform, ['orgs', 'create', '--id', 'acme', '--name', 'Acme']))
+      .code
+  ).toBe(ExitCode.CONFLICT);
+  expect(
+    (await xcor(platform, ['orgs', 'create', '--id', 'A!', '--name', 'Acme']))
+      .code
+  ).toBe(ExitCode.VALIDATION);
+  expect(
+    (await xcor(platform, ['whoami'], {XCOR_ACCESS_TOKEN: 'wrong'})).code
+  ).toBe(ExitCode.UNAUTHORIZED);
+  expect((await xcor(platform, ['apps', 'exists', 'missing'])).code).toBe(
+    ExitCode.NOT_FOUND
+  );
+  expect((await xcor(platform, ['orgs', 'rename'])).code).toBe(ExitCode.USAGE);
+  expect((await xcor(platform, ['orgs', 'get', '--bogus'])).code).toBe(
+    ExitCode.USAGE
+  );
+  expect(
+    (await xcor(platform, ['whoami'], {XCOR_ACCESS_TOKEN: ''})).stderr
+  ).toContain('No credentials');
+
+  const props = {method: 'put', path: '/orgs/acme'};
+  expect(exitCodeOf(new ConflictError({...props, httpStatus: 409}))).toBe(
+    ExitCode.CONFLICT
+  );
+  expect(
+    exitCodeOf(new PreconditionFailedError({...props, httpStatus: 412}))
+  ).toBe(ExitCode.PRECONDITION_FAILED);
+  expect(exitCodeOf(new NetworkError(props, 'ECONNRESET'))).toBe(
+    ExitCode.NETWORK
+  );
+  expect(exitCodeOf(new TimeoutError(props, 1000))).toBe(ExitCode.TIMEOUT);
+  expect(exitCodeOf(new CancelledError(props))).toBe(ExitCode.CANCELLED);
+});
+
+test('Reads credentials from a profile', async () => {
+  const file = join(directory, 'config.json');
+  await writeFile(
+    file,
+    JSON.stringify({profiles: {ops: {accessToken: 'ops-token'}}})
+  );
+  const platform = new FakeXcorPlatform({accessToken: 'ops-token'});
+  const env = {XCOR_CONFIG_FILE: file};
+  const result = await runCli(['whoami', '--profile', 'ops', '-o', 'json'], {
+    env,
+    stdout: () => {},
+    stderr: () => {},
+    transport: platform.transport(),
+  });
+  expect(result).toBe(ExitCode.OK);
+  expect(
+    await runCli(['whoami', '--profile', 'dev'], {
+      env,
+      stderr: () => {},
+      transport: platform.transport(),
+    })
+  ).toBe(ExitCode.USAGE);
+});
+
+test('Prints the OpenAPI document', async () => {
+  const result = await xcor(new FakeXcorPlatform(), ['openapi', '-o', 'json']);
+  expect(result.code).toBe(ExitCode.OK);
+  expect(JSON.parse(result.stdout).info.title).toBe('Xcor Platform API');
+  const yamlResult = await xcor(new FakeXcorPlatform(), ['openapi']);
+  expect(yaml.load(yamlResult.stdout)).toMatchObject({openapi: '3.1.0'});
+  const table = await xcor(new FakeXcorPlatform(), ['openapi', '-o', 'table']);
+  expect(table.code).toBe(ExitCode.USAGE);
+  expect(table.stdout).toBe('');
+});
@@ -0,0 +1,490 @@
+import {readFile} from 'node:fs/promises';
+import {homedir} from 'node:os';
+import {dirname, join} from 'node:path';
+import {parseArgs} from 'node:util';
+import {AuthConfig, XcorPlatformClient} from '../xcorplatform-client.js';
+import {StaticTokenProvider, TokenProvider} from '../token-providers.js';
+import {FileTokenCache} from '../token-cache.js';
+import {HttpTransport} from '../transport.js';
+import {generateOpenApi} from '../openapi.js';
+import {
+  ApiError,
+  AuthenticationError,
+  CancelledError,
+  ConflictError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  PreconditionFailedError,
+  RateLimitedError,
+  RequestValidationError,
+  ServerError,
+  TimeoutError,
+  UnauthorizedError,
+  ValidationError,
+} from '../errors.js';
+import {z} from '../types/index.js';
+import {formatOutput, OUTPUT_FORMATS, OutputFormat} from './format.js';
+
+/**
+ * The exit codes of the CLI. Failed API calls exit with the code matching the error class.
+ */
+export const ExitCode = {
+  OK: 0,
+  ERROR: 1,
+  USAGE: 2,
+  VALIDATION: 3,
+  UNAUTHORIZED: 4,
+  FORBIDDEN: 5,
+  NOT_FOUND: 6,
+  CONFLICT: 7,
+  RATE_LIMITED: 8,
+  SERVER: 9,
+  NETWORK: 10,
+  TIMEOUT: 11,
+  CANCELLED: 12,
+  PRECONDITION_FAILED: 13,
+};
+
+/**
+ * Thrown when the CLI is invoked with invalid arguments or without credentials.
+ */
+export class UsageError extends Error {
+  constructor(message?: string) {
+    message = message ?? 'Invalid usage';
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Where the CLI reads its environment from and writes its output to.
+ */
+export interface CliIo {
+  /**
+   * Default is process.env.
+   */
+  readonly env?: Record<string, string | undefined>;
+  /**
+   * Default writes to process.stdout.
+   */
+  readonly stdout?: (text: string) => void;
+  /**
+   * Default writes to process.stderr.
+   */
+  readonly stderr?: (text: string) => void;
+  /**
+   * Sends requests to the API. Default is fetch.
+   */
+  readonly transport?: HttpTransport;
+}
+
+const CliProfile = z.object({
+  clientId: z.string().optional(),
+  clientSecret: z.string().optional(),
+  tokenEndpoint: z.string().optional(),
+  scopes: z.array(z.string()).optional(),
+  baseUrl: z.string().optional(),
+  accessToken: z.string().optional(),
+});
+
+/**
+ * The credentials and API to use. Read from a profile in the config file and overridden by environment
+ * variables.
+ */
+export type CliProfile = z.infer<typeof CliProfile>;
+
+const CliConfigFile = z.object({
+  profiles: z.record(CliProfile),
+});
+
+const DEFAULT_PROFILE = 'default';
+
+function configFileOf(env: Record<string, string | undefined>): string {
+  return env.XCOR_CONFIG_FILE ?? join(homedir(), '.xcor', 'config.json');
+}
+
+/**
+ * Loads a profile from the config file and applies the XCOR_* environment variables over it. A missing config
+ * file is ignored unless a profile other than the default is requested.
+ *
+ * @param env The environment variables
+ * @param name The name of the profile. Default is XCOR_PROFILE or default.
+ */
+export async function loadProfile(
+  env: Record<string, string | undefined>,
+  name?: string
+): Promise<CliProfile> {
+  const file = configFileOf(env);
+  const profileName = name ?? env.XCOR_PROFILE ?? DEFAULT_PROFILE;
+  let profiles: Record<string, CliProfile> = {};
+  try {
+    const result = CliConfigFile.safeParse(
+      JSON.parse(await readFile(file, 'utf8'))
+    );
+    if (!result.success) {
+      throw new UsageError(`Invalid config file ${file}`);
+    }
+    profiles = result.data.profiles;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err instanceof UsageError
+        ? err
+        : new UsageError(`Unable to read config file ${file}`);
+    }
+  }
+  const profile = profiles[profileName];
+  if (profile === undefined && profileName !== DEFAULT_PROFILE) {
+    throw new UsageError(`Profile ${profileName} not found in ${file}`);
+  }
+  return {
+    clientId: env.XCOR_CLIENT_ID ?? profile?.clientId,
+    clientSecret: env.XCOR_CLIENT_SECRET ?? profile?.clientSecret,
+    tokenEndpoint: env.XCOR_TOKEN_ENDPOINT ?? profile?.tokenEndpoint,
+    scopes: env.XCOR_SCOPES?.split(/[\s,]+/).filter(Boolean) ?? profile?.scopes,
+    baseUrl: env.XCOR_BASE_URL ?? profile?.baseUrl,
+    accessToken: env.XCOR_ACCESS_TOKEN ?? profile?.accessToken,
+  };
+}
+
+function authOf(
+  profile: CliProfile,
+  env: Record<string, string | undefined>
+): AuthConfig | TokenProvider {
+  if (profile.accessToken) {
+    return new StaticTokenProvider(profile.accessToken);
+  }
+  if (profile.clientId && profile.clientSecret) {
+    return {
+      clientId: profile.clientId,
+      clientSecret: profile.clientSecret,
+      tokenEndpoint: profile.tokenEndpoint,
+      scopes: profile.scopes,
+      tokenCache: new FileTokenCache(
+        join(dirname(configFileOf(env)), 'tokens')
+      ),
+    };
+  }
+  throw new UsageError(
+    `No credentials. Set XCOR_CLIENT_ID and XCOR_CLIENT_SECRET or add a profile to ${configFileOf(
+      env
+    )}`
+  );
+}
+
+/**
+ * Returns the exit code matching an error.
+ *
+ * @param err The error the CLI failed with
+ */
+export function exitCodeOf(err: unknown): number {
+  if (err instanceof UsageError) {
+    return ExitCode.USAGE;
+  }
+  if (err instanceof RequestValidationError || err instanceof ValidationError) {
+    return ExitCode.VALIDATION;
+  }
+  if (err instanceof AuthenticationError || err instanceof UnauthorizedError) {
+    return ExitCode.UNAUTHORIZED;
+  }
+  if (err instanceof ForbiddenError) {
+    return ExitCode.FORBIDDEN;
+  }
+  if (err instanceof NotFoundError) {
+    return ExitCode.NOT_FOUND;
+  }
+  if (err instanceof ConflictError) {
+    return ExitCode.CONFLICT;
+  }
+  if (err instanceof PreconditionFailedError) {
+    return ExitCode.PRECONDITION_FAILED;
+  }
+  if (err instanceof RateLimitedError) {
+    return ExitCode.RATE_LIMITED;
+  }
+  if (err instanceof ServerError) {
+    return ExitCode.SERVER;
+  }
+  if (err instanceof NetworkError) {
+    return ExitCode.NETWORK;
+  }
+  if (err instanceof TimeoutError) {
+    return ExitCode.TIMEOUT;
+  }
+  if (err instanceof CancelledError) {
+    return ExitCode.CANCELLED;
+  }
+  return ExitCode.ERROR;
+}
+
+const OPTIONS = {
+  profile: {type: 'string'},
+  output: {type: 'string', short: 'o'},
+  'base-url': {type: 'string'},
+  help: {type: 'boolean', short: 'h'},
+  id: {type: 'string'},
+  name: {type: 'string'},
+  author: {type: 'string'},
+  email: {type: 'string'},
+  'org-id': {type: 'string'},
+  'id-starts-with': {type: 'string'},
+  'name-starts-with': {type: 'string'},
+  'max-items': {type: 'string'},
+  role: {type: 'string', multiple: true},
+} as const;
+
+type CliValues = ReturnType<
+  typeof parseArgs<{options: typeof OPTIONS}>
+>['values'];
+
+interface CliArgs {
+  readonly values: CliValues;
+  readonly positionals: string[];
+}
+
+interface CliContext {
+  readonly args: CliArgs;
+  readonly format: OutputFormat;
+  /**
+   * Creates a client from the selected profile. Throws a UsageError if there are no credentials.
+   */
+  client(): Promise<XcorPlatformClient>;
+}
+
+/**
+ * A CLI command. Commands that return a value have it printed in the selected output format and strings are
+ * printed as is.
+ */
+interface CliCommand {
+  readonly usage: string;
+  readonly description: string;
+  run(context: CliContext): Promise<unknown>;
+}
+
+function required(
+  args: CliArgs,
+  option: 'id' | 'name' | 'author' | 'email' | 'org-id',
+  position?: number
+): string {
+  const value =
+    args.values[option] ??
+    (position === undefined ? undefined : args.positionals[position]);
+  if (value === undefined) {
+    throw new UsageError(`Missing --${option}`);
+  }
+  return value;
+}
+
+function maxItems(args: CliArgs): number | undefined {
+  const value = args.values['max-items'];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^[1-9][0-9]*$/.test(value)) {
+    throw new UsageError('--max-items must be a positive integer');
+  }
+  return Number(value);
+}
+
+const COMMANDS: Record<string, CliCommand> = {
+  'orgs get': {
+    usage: 'orgs get <id>',
+    description: 'Get an org',
+    run: async ({args, client}) =>
+      (await client()).orgs.get(required(args, 'id', 2)),
+  },
+  'orgs create': {
+    usage: 'orgs create --id <id> --name <name>',
+    description: 'Create an org',
+    run: async ({args, client}) =>
+      (await client()).orgs.create({
+        id: required(args, 'id', 2),
+        name: required(args, 'name'),
+      }),
+  },
+  'orgs update': {
+    usage: 'orgs update --id <id> --name <name>',
+    description: 'Update an org',
+    run: async ({args, client}) =>
+      (await client()).orgs.update({
+        id: required(args, 'id', 2),
+        name: required(args, 'name'),
+      }),
+  },
+  'orgs delete': {
+    usage: 'orgs delete <id>',
+    description: 'Delete an org',
+    run: async ({args, client}) =>
+      (await client()).orgs.delete(required(args, 'id', 2)),
+  },
+  'orgs find': {
+    usage:
+      'orgs find --org-id <id> [--id-starts-with <id>] [--name-starts-with <name>] [--max-items <n>]',
+    description: 'Find orgs, requesting every page',
+    run: async ({args, client}) =>
+      (await client()).orgs
+        .iterate(
+          {
+            orgId: required(args, 'org-id'),
+            idStartsWith: args.values['id-starts-with'],
+            nameStartsWith: args.values['name-starts-with'],
+          },
+          {maxItems: maxItems(args)}
+        )
+        .toArray(),
+  },
+  'apps create': {
+    usage: 'apps create --id <id> --name <name> --author <author>',
+    description: 'Create an app',
+    run: async ({args, client}) =>
+      (await client()).apps.create({
+        id: required(args, 'id', 2),
+        name: required(args, 'name'),
+        author: required(args, 'author'),
+      }),
+  },
+  'apps get': {
+    usage: 'apps get <id>',
+    description: 'Get an app',
+    run: async ({args, client}) =>
+      (await client()).apps.get(required(args, 'id', 2)),
+  },
+  'apps exists': {
+    usage: 'apps exists <id>',
+    description: 'Check if an app exists, exiting with 6 if it does not',
+    run: async ({args, client}) => {
+      const id = required(args, 'id', 2);
+      if (!(await (await client()).apps.exists(id))) {
+        throw new NotFoundError(
+          {httpStatus: 404, method: 'head', path: `/apps/${id}`},
+          `App ${id} does not exist`
+        );
+      }
+      return {id, exists: true};
+    },
+  },
+  invite: {
+    usage: 'invite --email <email> --org-id <id> [--role <role>...]',
+    description: 'Invite a user to an org',
+    run: async ({args, client}) =>
+      (await client()).invites.send({
+        email: required(args, 'email'),
+        orgId: required(args, 'org-id'),
+        roles: args.values.role,
+      }),
+  },
+  whoami: {
+    usage: 'whoami',
+    description: 'Show the authenticated user',
+    run: async ({client}) => (await client()).users.me(),
+  },
+  openapi: {
+    usage: 'openapi [-o json|yaml]',
+    description: 'Print the OpenAPI document of the API',
+    run: async ({args, format}) => {
+      if (args.values.output === 'table') {
+        throw new UsageError('openapi only supports json or yaml output');
+      }
+      return generateOpenApi({format: format === 'json' ? 'json' : 'yaml'});
+    },
+  },
+};
+
+function help(): string {
+  const width = Math.max(
+    ...Object.values(COMMANDS).map(command => command.usage.length)
+  );
+  return [
+    'Usage: xcor <command> [options]',
+    '',
+    'Commands:',
+    ...Object.values(COMMANDS).map(
+      command => `  ${command.usage.padEnd(width)}  ${command.description}`
+    ),
+    '',
+    'Options:',
+    '  -o, --output <format>  table, json or yaml. Default is table',
+    '  --profile <name>       The profile in ~/.xcor/config.json. Default is XCOR_PROFILE or default',
+    '  --base-url <url>       The URL of the API',
+    '  -h, --help             Show this help',
+    '',
+    'Credentials are read from XCOR_CLIENT_ID, XCOR_CLIENT_SECRET, XCOR_TOKEN_ENDPOINT, XCOR_SCOPES,',
+    'XCOR_ACCESS_TOKEN and XCOR_BASE_URL or the selected profile.',
+  ].join('\n');
+}
+
+function parse(argv: string[]): CliArgs {
+  try {
+    return parseArgs({args: argv, options: OPTIONS, allowPositionals: true});
+  } catch (err) {
+    throw new UsageError((err as Error).message);
+  }
+}
+
+function outputFormat(args: CliArgs): OutputFormat {
+  const format = args.values.output ?? 'table';
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new UsageError(`Unknown output format ${format}`);
+  }
+  return format as OutputFormat;
+}
+
+/**
+ * Runs the CLI and returns the exit code. Errors are printed rather than thrown.
+ *
+ * @param argv The arguments without the node executable and script
+ * @param io Where to read the environment from and write output to
+ */
+export async function runCli(argv: string[], io?: CliIo): Promise<number> {
+  const env = io?.env ?? process.env;
+  const stdout = io?.stdout ?? (text => process.stdout.write(text));
+  const stderr = io?.stderr ?? (text => process.stderr.write(text));
+  try {
+    const args = parse(argv);
+    const [group, action] = args.positionals;
+    if (args.values.help || group === undefined) {
+      stdout(`${help()}\n`);
+      return group === undefined && !args.values.help
+        ? ExitCode.USAGE
+        : ExitCode.OK;
+    }
+    const command = COMMANDS[`${group} ${action}`] ?? COMMANDS[group];
+    if (command === undefined) {
+      throw new UsageError(
+        `Unknown command ${[group, action].filter(Boolean).join(' ')}`
+      );
+    }
+    const format = outputFormat(args);
+    const result = await command.run({
+      args,
+      format,
+      client: async () => {
+        const profile = await loadProfile(env, args.values.profile);
+        return new XcorPlatformClient({
+          baseUrl: args.values['base-url'] ?? profile.baseUrl,
+          transport: io?.transport ?? 'fetch',
+        }).auth(authOf(profile, env));
+      },
+    });
+    const text =
+      typeof result === 'string'
+        ? result.trimEnd()
+        : formatOutput(result, format);
+    if (text !== '') {
+      stdout(`${text}\n`);
+    }
+    return ExitCode.OK;
+  } catch (err) {
+    const code = exitCodeOf(err);
+    const message = err instanceof Error ? err.message : String(err);
+    stderr(
+      err instanceof ApiError && err.requestId
+        ? `Error: ${message} (request ${err.requestId})\n`
+        : `Error: ${message}\n`
+    );
+    if (code === ExitCode.USAGE && err instanceof UsageError) {
+      stderr("Run 'xcor --help' for usage\n");
+    }
+    return code;
+  }
+}
@@ -0,0 +1,85 @@
+import * as yaml from 'js-yaml';
+
+/**
+ * The formats the CLI can print results in.
+ */
+export type OutputFormat = 'table' | 'json' | 'yaml';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'yaml'];
+
+function cell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function columns(rows: string[][]): string {
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map(row => row[i].length))
+  );
+  return rows
+    .map(row =>
+      row
+        .map((value, i) =>
+          i < row.length - 1 ? value.padEnd(widths[i]) : value
+        )
+        .join('  ')
+    )
+    .join('\n');
+}
+
+/**
+ * Formats an array of objects with a column for each field, an object with a row for each field and anything
+ * else as a string.
+ */
+function table(value: unknown): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '';
+    }
+    const keys = [
+      ...new Set(
+        value.flatMap(item =>
+          typeof item === 'object' && item !== null ? Object.keys(item) : []
+        )
+      ),
+    ];
+    if (keys.length === 0) {
+      return value.map(cell).join('\n');
+    }
+    return columns([
+      keys.map(key => key.toUpperCase()),
+      ...value.map(item =>
+        keys.map(key => cell((item as Record<string, unknown>)[key]))
+      ),
+    ]);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value);
+    return entries.length === 0
+      ? ''
+      : columns(entries.map(([key, v]) => [key, cell(v)]));
+  }
+  return cell(value);
+}
+
+/**
+ * Formats a result for printing. Returns an empty string if there is nothing to print.
+ *
+ * @param value The result to format
+ * @param format The format to use
+ */
+export function formatOutput(value: unknown, format: OutputFormat): string {
+  if (value === undefined) {
+    return '';
+  }
+  switch (format) {
+    case 'json':
+      return JSON.stringify(value, null, 2);
+    case 'yaml':
+      return yaml.dump(value).trimEnd();
+    case 'table':
+      return table(value);
+  }
+}
@@ -0,0 +1,41 @@
+import {execFile} from 'node:child_process';
+import {mkdir, mkdtemp, rm, writeFile} from 'node:fs/promises';
+import {join} from 'node:path';
+import {promisify} from 'node:util';
+
+const run = promisify(execFile);
+
+// Built inside node_modules so the compiled files resolve the installed dependencies
+let directory: string;
+
+beforeAll(async () => {
+  const cache = join(process.cwd(), 'node_modules', '.cache');
+  await mkdir(cache, {recursive: true});
+  directory = await mkdtemp(join(cache, 'xcor-cli-'));
+  await run(process.execPath, [
+    join(process.cwd(), 'node_modules', 'typescript', 'bin', 'tsc'),
+    '-p',
+    'tsconfig.json',
+    '--outDir',
+    directory,
+    '--declaration',
+    'false',
+    '--declarationMap',
+    'false',
+  ]);
+  await writeFile(join(directory, 'package.json'), '{"type": "module"}');
+}, 300000);
+
+afterAll(async () => {
+  await rm(directory, {recursive: true, force: true});
+});
+
+test('The compiled binary runs under node', async () => {
+  const main = join(directory, 'cli', 'main.js');
+  const {stdout} = await run(process.execPath, [main, '--help']);
+  expect(stdout).toMatch(/^Usage: xcor <command>/);
+  await expect(run(process.execPath, [main, 'nope'])).rejects.toMatchObject({
+    code: 2,
+    stderr: expect.stringContaining('Unknown command nope'),
+  });
+}, 30000);
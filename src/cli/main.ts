@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import * as logging from '@nr1e/logging';
+import {runCli} from './cli.js';
+
+// Logs go to stderr so they never mix with the results printed to stdout.
+await logging.initialize({
+  svc: 'xcor',
+  transport: {target: 'pino/file', options: {destination: 2}},
+});
+process.exitCode = await runCli(process.argv.slice(2));
@@ -0,0 +1,53 @@
+import {ClientCredentials} from './client-credentials.js';
+import {HttpResponse} from './transport.js';
+import {MockTransport} from './testing/index.js';
+
+// The jest global is not injected into ES modules
+const timers = (import.meta as unknown as {jest: typeof jest}).jest;
+
+beforeEach(() => {
+  timers.useFakeTimers();
+});
+
+afterEach(() => {
+  timers.useRealTimers();
+});
+
+test('Short lived tokens are refreshed without flooding the token endpoint', async () => {
+  let release: (() => void) | undefined;
+  const transport = new MockTransport(async () => {
+    const response: HttpResponse = {
+      status: 200,
+      headers: {'content-type': 'application/json'},
+      data: {
+        access_token: `token-${transport.requests.length}`,
+        expires_in: 30,
+      },
+    };
+    if (transport.requests.length === 3) {
+      await new Promise<void>(resolve => (release = resolve));
+    }
+    return response;
+  });
+  const credentials = new ClientCredentials({
+    clientId: 'client',
+    clientSecret: 'secret',
+    tokenEndpoint: 'https://auth.example.com/token',
+    scopes: [],
+    transport,
+  });
+  expect(await credentials.getAccessToken()).toBe('token-1');
+  await timers.advanceTimersByTimeAsync(200);
+  expect(transport.requests).toHaveLength(1);
+  await timers.advanceTimersByTimeAsync(15000);
+  expect(transport.requests).toHaveLength(2);
+  expect(await credentials.getAccessToken()).toBe('token-2');
+
+  // A refresh in flight when the instance is closed does not schedule another
+  await timers.advanceTimersByTimeAsync(15000);
+  expect(transport.requests).toHaveLength(3);
+  credentials.close();
+  release?.();
+  await timers.advanceTimersByTimeAsync(60000);
+  expect(transport.requests).toHaveLength(3);
+});
@@ -1,4 +1,13 @@
-import axios, {AxiosInstance} from 'axios';
+import type {AxiosInstance} from 'axios';
+import {
+  DEFAULT_TOKEN_REQUEST_TIMEOUT,
+  postTokenRequest,
+  TokenProvider,
+} from './token-providers.js';
+import {abortable} from './cancellation.js';
+import {TokenCache, TokenCacheKey} from './token-cache.js';
+import {AxiosTransport, HttpTransport} from './transport.js';
+import {TelemetryTracer} from './telemetry.js';
 
 /**
  * Configuration for the ClientCredentials class
@@ -8,25 +17,58 @@ export interface ClientCredentialsConfig {
   readonly clientSecret: string;
   readonly tokenEndpoint: string;
   readonly scopes: string[];
+  /**
+   * Sends the token requests. Default is an AxiosTransport.
+   */
+  readonly transport?: HttpTransport;
+  /**
+   * @deprecated Use transport instead.
+   */
   readonly httpClient?: AxiosInstance;
   readonly refreshBeforeExpiration?: number;
   readonly disableBackgroundRefresh?: boolean;
+  /**
+   * The number of milliseconds a token request may take before it fails. Callers share a single token request,
+   * so this bounds how long any of them waits if the token endpoint hangs. Default is 30000.
+   */
+  readonly tokenRequestTimeout?: number;
+  /**
+   * Checked for a token before one is requested and updated when a new token is issued.
+   */
+  readonly cache?: TokenCache;
+  /**
+   * Traces token requests as spans. Requests made while a command span is active become its children.
+   */
+  readonly tracer?: TelemetryTracer;
 }
 
 /**
- * ClientCredentials is a helper class for managing OAuth2 client credentials
+ * The shortest time in milliseconds between background refreshes, so short lived tokens cannot flood the token
+ * endpoint.
+ */
+const MIN_REFRESH_DELAY = 1000;
+
+/**
+ * ClientCredentials is a helper class for managing OAuth2 client credentials. Concurrent callers share a single
+ * token request and failures are thrown as an AuthenticationError.
  */
-export class ClientCredentials {
+export class ClientCredentials implements TokenProvider {
   protected clientId: string;
   protected clientSecret: string;
   protected tokenEndpoint: string;
   protected scopes: string[];
-  protected httpClient: AxiosInstance;
+  protected transport: HttpTransport;
   protected refreshBeforeExpiration: number;
   protected disableBackgroundRefresh: boolean;
+  protected tokenRequestTimeout: number;
+  protected cache?: TokenCache;
+  protected tracer?: TelemetryTracer;
+  protected invalidation?: Promise<void>;
   protected accessToken?: string;
   protected expiration?: number;
-  protected intervalId?: NodeJS.Timeout;
+  protected pending?: Promise<string>;
+  protected timeoutId?: ReturnType<typeof setTimeout>;
+  protected closed = false;
 
   /**
    * Create a new ClientCredentials instance
@@ -38,68 +80,157 @@ export class ClientCredentials {
     this.clientSecret = config.clientSecret;
     this.tokenEndpoint = config.tokenEndpoint;
     this.scopes = config.scopes;
-    this.httpClient = config.httpClient ?? axios.create();
+    this.transport = config.transport ?? new AxiosTransport(config.httpClient);
     this.refreshBeforeExpiration = config.refreshBeforeExpiration ?? 60;
     this.disableBackgroundRefresh = config.disableBackgroundRefresh ?? false;
+    this.tokenRequestTimeout =
+      config.tokenRequestTimeout ?? DEFAULT_TOKEN_REQUEST_TIMEOUT;
+    this.cache = config.cache;
+    this.tracer = config.tracer;
   }
 
   /**
    * Get the current access token
+   *
+   * @param signal Stops waiting for a new token if one is needed. The token request itself continues for other callers.
    */
-  async getAccessToken(): Promise<string> {
+  async getAccessToken(signal?: AbortSignal): Promise<string> {
     if (
-      this.accessToken === undefined ||
-      this.expiration === undefined ||
-      this.expiration < Date.now()
+      this.accessToken !== undefined &&
+      this.expiration !== undefined &&
+      this.expiration > Date.now()
     ) {
-      await this.updateToken();
+      return this.accessToken;
     }
-    return this.accessToken!;
+    return abortable(this.refresh(), signal);
   }
 
   /**
    * Update the access token. This happens automatically and does not need to be called manually unless disableBackgroundRefresh is set to true.
+   *
+   * @param signal Stops waiting for the new token
+   */
+  async updateToken(signal?: AbortSignal): Promise<void> {
+    await abortable(this.refresh(), signal);
+  }
+
+  /**
+   * Discard the current access token so the next call to getAccessToken requests a new one. The token is also
+   * removed from the cache if one is configured.
+   */
+  invalidate() {
+    if (this.accessToken !== undefined && this.cache) {
+      this.invalidation = this.cache
+        .delete(this.cacheKey())
+        .catch(() => undefined);
+    }
+    this.accessToken = undefined;
+    this.expiration = undefined;
+  }
+
+  /**
+   * Requests a new token, joining the request already in flight if there is one. The request is forgotten once it
+   * settles, so the next call after a failure sends a new one.
+   */
+  protected refresh(): Promise<string> {
+    if (this.pending === undefined) {
+      this.pending = this.requestToken().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  protected cacheKey(): TokenCacheKey {
+    return {
+      clientId: this.clientId,
+      scopes: this.scopes,
+      tokenEndpoint: this.tokenEndpoint,
+    };
+  }
+
+  protected async requestToken(): Promise<string> {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = undefined;
+    }
+    // Make sure an invalidated token is gone from the cache before reading it
+    await this.invalidation;
+    // Only use a cached token that does not need to be refreshed yet. Cache failures fall back to the token endpoint.
+    const cached = await this.cache
+      ?.get(this.cacheKey())
+      .catch(() => undefined);
+    if (
+      cached !== undefined &&
+      cached.expiresAt - this.refreshBeforeExpiration * 1000 > Date.now()
+    ) {
+      return this.useToken(cached.accessToken, cached.expiresAt - Date.now());
+    }
+    const token = await postTokenRequest(
+      this.transport,
+      this.tokenEndpoint,
+      {
+        grant_type: 'client_credentials',
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        scope: this.scopes.length > 0 ? this.scopes.join(' ') : undefined,
+      },
+      this.tracer,
+      AbortSignal.timeout(this.tokenRequestTimeout)
+    );
+    const accessToken = token.access_token;
+    const expiresIn = token.expires_in * 1000;
+    await this.cache
+      ?.set(this.cacheKey(), {accessToken, expiresAt: Date.now() + expiresIn})
+      .catch(() => undefined);
+    return this.useToken(accessToken, expiresIn);
+  }
+
+  /**
+   * Returns the number of milliseconds until a token is refreshed. Tokens are refreshed refreshBeforeExpiration
+   * seconds before they expire, or halfway through their lifetime if they expire sooner than that.
+   *
+   * @param expiresIn The number of milliseconds until the token expires
    */
-  async updateToken(): Promise<void> {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
+  protected refreshDelay(expiresIn: number): number {
+    const margin = this.refreshBeforeExpiration * 1000;
+    return Math.max(
+      MIN_REFRESH_DELAY,
+      expiresIn > margin ? expiresIn - margin : expiresIn / 2
+    );
+  }
+
+  protected useToken(accessToken: string, expiresIn: number): string {
+    const refreshIn = this.refreshDelay(expiresIn);
+    this.accessToken = accessToken;
+    this.expiration = Date.now() + refreshIn;
+    // A refresh that was in flight when the instance was closed must not start the timer again
+    if (!this.disableBackgroundRefresh && !this.closed) {
+      this.scheduleRefresh(refreshIn);
     }
-    try {
-      const response = await this.httpClient.post(
-        this.tokenEndpoint,
-        {
-          grant_type: 'client_credentials',
-          client_id: this.clientId,
-          client_secret: this.clientSecret,
-          scope: this.scopes.join(' '),
-        },
-        {
-          headers: {
-            'content-type': 'application/x-www-form-urlencoded',
-          },
-        }
-      );
-      this.accessToken = response.data.access_token;
-      this.expiration =
-        Date.now() +
-        (response.data.expires_in - this.refreshBeforeExpiration) * 1000;
-      if (!this.disableBackgroundRefresh) {
-        this.intervalId = setInterval(
-          () => this.updateToken(),
-          this.expiration
-        );
-      }
-    } catch (error) {
-      console.error('Unable to update access token', error);
+    return accessToken;
+  }
+
+  protected scheduleRefresh(delay: number) {
+    this.timeoutId = setTimeout(() => {
+      // Failures are ignored here as the next call to getAccessToken requests a token and surfaces the error
+      this.refresh().catch(() => undefined);
+    }, delay);
+    // Don't keep the process alive just to refresh a token
+    if (typeof this.timeoutId === 'object' && 'unref' in this.timeoutId) {
+      this.timeoutId.unref();
     }
   }
 
   /**
-   * Close the ClientCredentials instance. This will stop the background refresh of the access token.
+   * Close the ClientCredentials instance. This will stop the background refresh of the access token. The token is
+   * left in the cache as other clients may share it.
    */
   close() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
+    this.closed = true;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = undefined;
     }
     this.accessToken = undefined;
     this.expiration = undefined;
@@ -0,0 +1,10 @@
+/**
+ * The token endpoint of the AuthSure tenant that issues tokens for the Xcor Platform API.
+ */
+export const DEFAULT_AUTH_TOKEN_URL =
+  'https://secure.authsure.com/connect/token';
+
+/**
+ * The base URL of the production Xcor Platform API.
+ */
+export const DEFAULT_BASE_URL = 'https://api.xcorplatform.com';
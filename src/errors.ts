@@ -0,0 +1,356 @@
+import {z} from 'zod';
+import {IErrorResponse} from './types/error.js';
+
+/**
+ * Thrown when a response body does not match the schema of the command that was sent
+ * and response validation is set to strict.
+ */
+export class ResponseValidationError extends Error {
+  /**
+   * The issues reported by zod while parsing the response body.
+   */
+  readonly issues: z.ZodIssue[];
+  readonly httpStatus: number;
+
+  constructor(issues: z.ZodIssue[], httpStatus: number, message?: string) {
+    message = message ?? 'Response failed validation';
+    super(message);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+    this.httpStatus = httpStatus;
+  }
+}
+
+/**
+ * A single field that failed request validation.
+ */
+export interface FieldIssue {
+  /**
+   * The dot separated path to the field. Empty if the issue applies to the whole request.
+   */
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * Returned when command data does not match the request schema of the command. No HTTP request is made
+ * when this error occurs.
+ */
+export class RequestValidationError extends Error {
+  /**
+   * Always 0 as no request was sent.
+   */
+  readonly httpStatus = 0;
+  readonly issues: FieldIssue[];
+
+  constructor(issues: FieldIssue[], message?: string) {
+    message =
+      message ??
+      `Request failed validation: ${issues
+        .map(issue =>
+          issue.path ? `${issue.path} ${issue.message}` : issue.message
+        )
+        .join(', ')}`;
+    super(message);
+    this.name = 'RequestValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Properties describing a failed call to the Xcor Platform API.
+ */
+export interface ApiErrorProps {
+  /**
+   * The HTTP status code of the response. This is 0 if no response was received.
+   */
+  readonly httpStatus: number;
+  /**
+   * The HTTP method of the request.
+   */
+  readonly method: string;
+  /**
+   * The path of the request.
+   */
+  readonly path: string;
+  /**
+   * The parsed error response body if the response contained one.
+   */
+  readonly body?: IErrorResponse;
+  /**
+   * The request ID returned by the API if one was present.
+   */
+  readonly requestId?: string;
+}
+
+/**
+ * Base class of all errors returned by the Xcor Platform API. Statuses without a more specific
+ * error class are returned as an ApiError.
+ */
+export class ApiError extends Error {
+  readonly httpStatus: number;
+  readonly method: string;
+  readonly path: string;
+  readonly body?: IErrorResponse;
+  readonly requestId?: string;
+
+  constructor(props: ApiErrorProps, message?: string) {
+    message =
+      message ??
+      props.body?.message ??
+      `Request failed with ${props.httpStatus}`;
+    super(message);
+    this.name = 'ApiError';
+    this.httpStatus = props.httpStatus;
+    this.method = props.method;
+    this.path = props.path;
+    this.body = props.body;
+    this.requestId = props.requestId;
+  }
+}
+
+/**
+ * Returned when the requested resource does not exist.
+ */
+export class NotFoundError extends ApiError {
+  constructor(props: ApiErrorProps, message?: string) {
+    super(props, message ?? props.body?.message ?? 'Not found');
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Returned when the request conflicts with the current state of a resource, such as creating an org that
+ * already exists.
+ */
+export class ConflictError extends ApiError {
+  constructor(props: ApiErrorProps, message?: string) {
+    super(props, message ?? props.body?.message ?? 'Conflict');
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Returned when an update or delete sent with ifMatch is rejected because the resource changed after its ETag
+ * was read. Get the resource again and reapply the change.
+ */
+export class PreconditionFailedError extends ApiError {
+  constructor(props: ApiErrorProps, message?: string) {
+    super(props, message ?? props.body?.message ?? 'Precondition failed');
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+/**
+ * Thrown by execute when a get sent with its own If-None-Match or If-Modified-Since is answered with 304 Not
+ * Modified, as there is no data to return. Use send to receive the 304 as a response with notModified set.
+ */
+export class NotModifiedError extends ApiError {
+  constructor(props: ApiErrorProps, message?: string) {
+    super(props, message ?? 'Not modified');
+    this.name = 'NotModifiedError';
+  }
+}
+
+/**
+ * Returned when the API rejects the request data.
+ */
+export class ValidationError extends ApiError {
+  constructor(props: ApiErrorProps, message?: string) {
+    super(props, message ?? props.body?.message ?? 'Validation failed');
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Returned when the request is missing valid credentials.
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(props: ApiErrorProps, message?: string) {
+    super(props, message ?? props.body?.message ?? 'Unauthorized');
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Returned when the credentials are valid, but the operation is not allowed.
+ */
+export class ForbiddenError extends ApiError {
+  constructor(props: ApiErrorProps, message?: string) {
+    super(props, message ?? props.body?.message ?? 'Forbidden');
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Returned when too many requests have been made.
+ */
+export class RateLimitedError extends ApiError {
+  /**
+   * The number of milliseconds the API asked to wait before retrying if a Retry-After header was present.
+   */
+  readonly retryAfter?: number;
+
+  constructor(props: ApiErrorProps, retryAfter?: number, message?: string) {
+    super(props, message ?? props.body?.message ?? 'Too many requests');
+    this.name = 'RateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Returned when the API fails with a 5xx status.
+ */
+export class ServerError extends ApiError {
+  constructor(props: ApiErrorProps, message?: string) {
+    super(props, message ?? props.body?.message ?? 'Server error');
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Returned when no response was received from the API. The httpStatus is always 0.
+ */
+export class NetworkError extends ApiError {
+  /**
+   * The network error code such as ECONNRESET if one is known.
+   */
+  readonly code?: string;
+
+  constructor(
+    props: Omit<ApiErrorProps, 'httpStatus' | 'body'>,
+    code?: string,
+    message?: string
+  ) {
+    super({...props, httpStatus: 0}, message ?? 'Network error');
+    this.name = 'NetworkError';
+    this.code = code;
+  }
+}
+
+/**
+ * Returned without sending the request when the circuit breaker is open because the API has been failing. The
+ * httpStatus is always 0.
+ */
+export class CircuitOpenError extends ApiError {
+  /**
+   * The number of milliseconds until the circuit breaker allows a trial request.
+   */
+  readonly retryAfter?: number;
+
+  constructor(
+    props: Omit<ApiErrorProps, 'httpStatus' | 'body'>,
+    retryAfter?: number,
+    message?: string
+  ) {
+    super({...props, httpStatus: 0}, message ?? 'Circuit breaker is open');
+    this.name = 'CircuitOpenError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Converts a failed response into the matching ApiError subclass.
+ *
+ * @param props The details of the failed response
+ * @param retryAfter The delay requested by a Retry-After header in milliseconds
+ */
+export function toApiError(
+  props: ApiErrorProps,
+  retryAfter?: number
+): ApiError {
+  switch (props.httpStatus) {
+    case 400:
+    case 422:
+      return new ValidationError(props);
+    case 401:
+      return new UnauthorizedError(props);
+    case 403:
+      return new ForbiddenError(props);
+    case 404:
+      return new NotFoundError(props);
+    case 409:
+      return new ConflictError(props);
+    case 412:
+      return new PreconditionFailedError(props);
+    case 429:
+      return new RateLimitedError(props, retryAfter);
+    default:
+      return props.httpStatus >= 500
+        ? new ServerError(props)
+        : new ApiError(props);
+  }
+}
+
+/**
+ * Returned when a call is cancelled through an AbortSignal before it completes. The httpStatus is always 0.
+ */
+export class CancelledError extends ApiError {
+  constructor(
+    props: Omit<ApiErrorProps, 'httpStatus' | 'body'>,
+    message?: string
+  ) {
+    super({...props, httpStatus: 0}, message ?? 'Request cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Returned when a call does not complete before its timeout. The httpStatus is always 0.
+ */
+export class TimeoutError extends CancelledError {
+  /**
+   * The timeout in milliseconds that elapsed.
+   */
+  readonly timeout: number;
+
+  constructor(
+    props: Omit<ApiErrorProps, 'httpStatus' | 'body'>,
+    timeout: number,
+    message?: string
+  ) {
+    super(props, message ?? `Request timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Thrown when an access token cannot be obtained from the token endpoint. The path is the token endpoint and the
+ * httpStatus is 0 if no response was received.
+ */
+export class AuthenticationError extends ApiError {
+  /**
+   * The OAuth2 error code returned by the token endpoint such as invalid_client.
+   */
+  readonly oauthError?: string;
+
+  constructor(props: ApiErrorProps, oauthError?: string, message?: string) {
+    super(
+      props,
+      message ??
+        props.body?.message ??
+        `Unable to obtain access token${oauthError ? `: ${oauthError}` : ''}`
+    );
+    this.name = 'AuthenticationError';
+    this.oauthError = oauthError;
+  }
+}
+
+/**
+ * Thrown when an OpenAPI document cannot be generated because the registered commands and components are
+ * inconsistent, such as two different schemas registered under the same component name.
+ */
+export class OpenApiValidationError extends Error {
+  /**
+   * A description of each problem found.
+   */
+  readonly problems: string[];
+
+  constructor(problems: string[], message?: string) {
+    message = message ?? `Invalid OpenAPI document: ${problems.join(', ')}`;
+    super(message);
+    this.name = 'OpenApiValidationError';
+    this.problems = problems;
+  }
+}
@@ -1,3 +1,18 @@
-export * from './client-credentials';
-export * from './xcorplatform-client';
-export * from './types';
+export * from './batch.js';
+export * from './circuit-breaker.js';
+export * from './client-credentials.js';
+export * from './errors.js';
+export * from './middleware.js';
+export * from './openapi.js';
+export * from './paginator.js';
+export * from './rate-limiter.js';
+export * from './redaction.js';
+export * from './response-cache.js';
+export * from './resources.js';
+export * from './token-cache.js';
+export * from './token-providers.js';
+export * from './transport.js';
+export * from './retry.js';
+export * from './telemetry.js';
+export * from './xcorplatform-client.js';
+export * from './types/index.js';
@@ -0,0 +1,121 @@
+import * as logging from '@nr1e/logging';
+import {loggingMiddleware, runMiddleware} from './middleware.js';
+import {DEFAULT_REDACTED_FIELDS, REDACTED, redactFields} from './redaction.js';
+import {CreateOrgCommand} from './types/index.js';
+import {NotFoundError} from './errors.js';
+
+interface Event {
+  level: string;
+  fields: Record<string, unknown>;
+  msg?: string;
+}
+
+function recordingLogger(debug: boolean): [logging.Logger, Event[]] {
+  const events: Event[] = [];
+  const entry = (level: string) => {
+    const event: Event = {level, fields: {}};
+    events.push(event);
+    const e = {
+      str: (k: string, v: unknown) => ((event.fields[k] = v), e),
+      num: (k: string, v: unknown) => ((event.fields[k] = v), e),
+      unknown: (k: string, v: unknown) => ((event.fields[k] = v), e),
+      err: (v: unknown) => ((event.fields.err = v), e),
+      msg: (m: string) => {
+        event.msg = m;
+      },
+    };
+    return e;
+  };
+  const log = {
+    isDebug: () => debug,
+    debug: () => entry('debug'),
+    info: () => entry('info'),
+    error: () => entry('error'),
+  };
+  return [log as unknown as logging.Logger, events];
+}
+
+test('Redacts nested fields ignoring case', () => {
+  expect(
+    redactFields({
+      name: 'Acme',
+      Email: 'a@example.com',
+      users: [{email: 'b@example.com', id: 'b'}],
+    })
+  ).toEqual({
+    name: 'Acme',
+    Email: REDACTED,
+    users: [{email: REDACTED, id: 'b'}],
+  });
+  expect(redactFields({id: 'x'}, [...DEFAULT_REDACTED_FIELDS, 'id'])).toEqual({
+    id: REDACTED,
+  });
+});
+
+test('Logging middleware emits structured events without secrets', async () => {
+  const [log, events] = recordingLogger(true);
+  const middleware = loggingMiddleware(log, () => ({
+    requests: true,
+    responses: true,
+  }));
+  const context = {
+    command: new CreateOrgCommand({id: 'acme', name: 'Acme'}),
+    headers: {authorization: 'Bearer abc', 'x-tenant': 'acme'},
+    signal: new AbortController().signal,
+  };
+  await runMiddleware([middleware], context, async () => ({
+    data: {email: 'a@example.com'},
+    httpStatus: 200,
+    contentType: 'application/json',
+    requestId: 'req-1',
+    attempts: 2,
+  }));
+  expect(events[0]).toMatchObject({
+    level: 'info',
+    msg: 'Sending command',
+    fields: {
+      method: 'post',
+      path: '/orgs',
+      headers: {authorization: REDACTED, 'x-tenant': 'acme'},
+      body: {id: 'acme', name: 'Acme'},
+    },
+  });
+  expect(events[1]).toMatchObject({
+    level: 'info',
+    fields: {
+      status: 200,
+      contentType: 'application/json',
+      requestId: 'req-1',
+      attempt: 2,
+      body: {email: REDACTED},
+    },
+  });
+  expect(typeof events[1].fields.duration).toBe('number');
+  expect(JSON.stringify(events)).not.toContain('abc');
+});
+
+test('Logging middleware omits bodies above debug level', async () => {
+  const [log, events] = recordingLogger(false);
+  const middleware = loggingMiddleware(
+    log,
+    () => ({requests: true, responses: true}),
+    {headers: [], fields: []}
+  );
+  const error = new NotFoundError({httpStatus: 404, method: 'post', path: '/'});
+  await runMiddleware(
+    [middleware],
+    {
+      command: new CreateOrgCommand({id: 'acme', name: 'Acme'}),
+      headers: {authorization: 'Bearer abc'},
+      signal: new AbortController().signal,
+    },
+    async () => ({error, httpStatus: 404})
+  );
+  expect(events[0].fields.headers).toBeUndefined();
+  expect(events[1]).toMatchObject({
+    level: 'error',
+    msg: 'Command failed',
+    fields: {status: 404, err: error},
+  });
+  expect(events[1].fields.body).toBeUndefined();
+});
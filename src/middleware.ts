@@ -0,0 +1,190 @@
+import * as logging from '@nr1e/logging';
+import {CommandRequest, CommandResponse} from './types/index.js';
+import {TokenProvider} from './token-providers.js';
+import {RedactionConfig, redactFields, redactHeaders} from './redaction.js';
+
+declare let window: unknown;
+
+/**
+ * The state of a command as it passes through the middleware chain.
+ */
+export interface MiddlewareContext {
+  /**
+   * The command being sent. Use instanceof to narrow it to a specific command.
+   */
+  readonly command: CommandRequest<unknown, unknown>;
+  /**
+   * The headers sent with the request with lower case names. Middleware may add, change or remove headers
+   * before calling next.
+   */
+  readonly headers: Record<string, string>;
+  /**
+   * Aborted when the call is cancelled or times out.
+   */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Passes the command to the next middleware in the chain, or sends it if there are none left. May be called
+ * more than once to send the command again.
+ */
+export type Next = () => Promise<CommandResponse<unknown>>;
+
+/**
+ * Adds behavior to every command sent by a client. A middleware may change the context before calling next,
+ * inspect or replace the response returned by next, or return a response without calling next to
+ * short-circuit the request. An ApiError thrown by a middleware is returned as the error of the response and
+ * any other error is thrown from send.
+ *
+ * @example
+ * client.use(async (context, next) => {
+ *   context.headers['x-correlation-id'] = randomUUID();
+ *   return next();
+ * });
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: Next
+) => Promise<CommandResponse<unknown>>;
+
+/**
+ * Runs the middleware in order, ending with the given handler.
+ *
+ * @param middleware The middleware to run
+ * @param context The context passed to each middleware
+ * @param handler Sends the command after the last middleware calls next
+ */
+export function runMiddleware(
+  middleware: Middleware[],
+  context: MiddlewareContext,
+  handler: Next
+): Promise<CommandResponse<unknown>> {
+  const dispatch = (index: number): Promise<CommandResponse<unknown>> =>
+    index < middleware.length
+      ? middleware[index](context, () => dispatch(index + 1))
+      : handler();
+  return dispatch(0);
+}
+
+/**
+ * Sets the user-agent header. Browsers do not allow the header to be set so nothing is done there.
+ *
+ * @param userAgent The user agent to send
+ */
+export function userAgentMiddleware(userAgent: string): Middleware {
+  return async (context, next) => {
+    if (typeof window === 'undefined') {
+      context.headers['user-agent'] = userAgent;
+    }
+    return next();
+  };
+}
+
+/**
+ * Sets the authorization header to the bearer token from a token provider. If the API responds with a 401 and
+ * the provider supports invalidation, the command is sent once more with a new token. Commands that set their
+ * own authorization header are left alone.
+ *
+ * @param provider Returns the current token provider, if any
+ * @param log The logger to use
+ */
+export function authMiddleware(
+  provider: () => TokenProvider | undefined,
+  log: logging.Logger
+): Middleware {
+  return async (context, next) => {
+    const tokenProvider = provider();
+    if (tokenProvider === undefined || 'authorization' in context.headers) {
+      return next();
+    }
+    const authorize = async () => {
+      context.headers.authorization = `Bearer ${await tokenProvider.getAccessToken(
+        context.signal
+      )}`;
+    };
+    await authorize();
+    const response = await next();
+    if (response.httpStatus !== 401 || tokenProvider.invalidate === undefined) {
+      return response;
+    }
+    log.debug().msg('Access token rejected, retrying with a new token');
+    tokenProvider.invalidate();
+    await authorize();
+    return next();
+  };
+}
+
+/**
+ * Options for the logging middleware.
+ */
+export interface LoggingOptions {
+  /**
+   * Log each command sent.
+   */
+  readonly requests: boolean;
+  /**
+   * Log each response received.
+   */
+  readonly responses: boolean;
+}
+
+/**
+ * Logs commands and their responses as structured events with the method, path, status, duration in
+ * milliseconds, content type, request ID and number of attempts. When the logger is at debug level, headers and
+ * bodies are included after redaction.
+ *
+ * @param log The logger to use
+ * @param options Returns what should be logged
+ * @param redaction What to redact from headers and bodies
+ */
+export function loggingMiddleware(
+  log: logging.Logger,
+  options: () => LoggingOptions,
+  redaction?: RedactionConfig
+): Middleware {
+  return async (context, next) => {
+    const {requests, responses} = options();
+    const {method, path} = context.command.props;
+    if (requests) {
+      const entry = log.info().str('method', method).str('path', path);
+      if (log.isDebug()) {
+        entry
+          .unknown(
+            'headers',
+            redactHeaders(context.headers, redaction?.headers)
+          )
+          .unknown(
+            'body',
+            redactFields(context.command.props.data, redaction?.fields)
+          );
+      }
+      entry.msg('Sending command');
+    }
+    const start = Date.now();
+    const response = await next();
+    if (responses) {
+      const entry = (response.error ? log.error() : log.info())
+        .str('method', method)
+        .str('path', path)
+        .num('status', response.httpStatus)
+        .num('duration', Date.now() - start);
+      if (response.contentType) {
+        entry.str('contentType', response.contentType);
+      }
+      if (response.requestId) {
+        entry.str('requestId', response.requestId);
+      }
+      if (response.attempts) {
+        entry.num('attempt', response.attempts);
+      }
+      if (response.error) {
+        entry.err(response.error);
+      }
+      if (log.isDebug() && response.data !== undefined) {
+        entry.unknown('body', redactFields(response.data, redaction?.fields));
+      }
+      entry.msg(response.error ? 'Command failed' : 'Received response');
+    }
+    return response;
+  };
+}
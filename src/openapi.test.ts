@@ -0,0 +1,156 @@
+import {OpenAPIRegistry} from '@asteasolutions/zod-to-openapi';
+import {generateOpenApi, openapiDocument, validateOpenApi} from './openapi.js';
+import {OpenApiValidationError} from './errors.js';
+import {
+  CommandRegistry,
+  commandRegistry,
+  defineCommand,
+  MediaType,
+  z,
+} from './types/index.js';
+
+test('Generates JSON with servers, security and metadata', () => {
+  const document = JSON.parse(
+    generateOpenApi({
+      format: 'json',
+      title: 'Xcor',
+      version: '2.3.0',
+      servers: [
+        {url: 'https://api.xcorplatform.com', description: 'Production'},
+        {url: 'https://api.dev.xcorplatform.com', description: 'Development'},
+      ],
+      tokenUrl: 'https://auth.example.com/token',
+    })
+  );
+  expect(document.info).toMatchObject({title: 'Xcor', version: '2.3.0'});
+  expect(document.servers).toHaveLength(2);
+  expect(document.security).toEqual([{oauth2: []}]);
+  expect(document.components.securitySchemes.oauth2).toEqual({
+    type: 'oauth2',
+    flows: {
+      clientCredentials: {
+        tokenUrl: 'https://auth.example.com/token',
+        scopes: {},
+      },
+    },
+  });
+});
+
+test('Documents error responses with the error media type', () => {
+  const document = openapiDocument();
+  const getOrg = document.paths?.['/orgs/{id}']?.get;
+  expect(getOrg?.responses?.['404']).toEqual({
+    description: 'Org does not exist',
+    content: {
+      [MediaType.ERROR_RESPONSE]: {
+        schema: {$ref: '#/components/schemas/ErrorResponse'},
+      },
+    },
+  });
+  expect(getOrg?.responses?.['401']).toEqual({
+    $ref: '#/components/responses/Unauthorized',
+  });
+  expect(document.components?.responses?.Unauthorized).toBeDefined();
+  expect(document.paths?.['/apps/{id}']?.head?.responses).toEqual({
+    200: {description: 'App exists'},
+    404: {description: 'App does not exist'},
+  });
+  expect(document.components?.schemas?.UserInfoResponse).toBeDefined();
+  expect(
+    document.paths?.['/userinfo']?.get?.responses?.['200']?.content
+  ).toEqual({
+    [MediaType.USERINFO_RESPONSE]: {
+      schema: {$ref: '#/components/schemas/UserInfoResponse'},
+    },
+  });
+});
+
+test('Documents only the body fields of member role updates', () => {
+  const document = openapiDocument();
+  const put = document.paths?.['/orgs/{orgId}/members/{userId}/roles']?.put;
+  const content = (put?.requestBody as {content: Record<string, object>})
+    .content;
+  expect(content[MediaType.UPDATE_ORG_MEMBER_ROLES_REQUEST]).toEqual({
+    schema: expect.objectContaining({
+      properties: {roles: expect.objectContaining({type: 'array'})},
+      required: ['roles'],
+    }),
+  });
+});
+
+test('Documents conditional requests', () => {
+  const document = openapiDocument();
+  const {get, put} = document.paths?.['/orgs/{id}'] ?? {};
+  expect(get?.parameters).toContainEqual(
+    expect.objectContaining({in: 'header', name: 'If-None-Match'})
+  );
+  expect(get?.responses?.['200']?.headers).toHaveProperty('ETag');
+  expect(get?.responses?.['304']).toBeDefined();
+  expect(put?.parameters).toContainEqual(
+    expect.objectContaining({in: 'header', name: 'If-Match'})
+  );
+  expect(put?.responses?.['412']?.content).toHaveProperty([
+    MediaType.ERROR_RESPONSE,
+  ]);
+  expect(document.paths?.['/orgs']?.post?.responses?.['412']).toBeUndefined();
+});
+
+test('Fails on duplicate component names', () => {
+  const registry = new OpenAPIRegistry();
+  commandRegistry.register(registry);
+  registry.register('GetOrgResponse', z.object({other: z.string()}));
+  expect(() => validateOpenApi(registry)).toThrow(OpenApiValidationError);
+
+  const commands = new CommandRegistry();
+  commands.add(
+    commandRegistry.all().find(command => command.operationId === 'getOrg')!
+  );
+  expect(() => openapiDocument({commands})).not.toThrow();
+});
+
+test('Finds duplicates inside effects and lazy schemas', () => {
+  const named = (shape: z.ZodRawShape) => z.object(shape).openapi('Nested');
+  const check = (schema: z.ZodTypeAny) => {
+    const registry = new OpenAPIRegistry();
+    registry.register('First', z.object({nested: named({a: z.string()})}));
+    registry.register('Second', schema);
+    return () => validateOpenApi(registry);
+  };
+  expect(check(named({a: z.string()}))).not.toThrow();
+  expect(check(named({b: z.number()}).transform(value => value.b))).toThrow(
+    'schemas/Nested is used by 2 schemas'
+  );
+  expect(check(named({b: z.number()}).refine(value => value.b > 0))).toThrow(
+    'schemas/Nested is used by 2 schemas'
+  );
+  expect(check(z.lazy(() => named({b: z.number()})))).toThrow(
+    'schemas/Nested is used by 2 schemas'
+  );
+});
+
+test('Defined commands are validated before generation', () => {
+  const commands = new CommandRegistry();
+  const first = defineCommand({
+    name: 'FirstDuplicateCommand',
+    description: 'First',
+    tags: ['Test'],
+    method: 'get',
+    path: '/first',
+    response: z.object({a: z.string()}).openapi('Duplicate'),
+    responses: {200: 'OK'},
+  });
+  const second = defineCommand({
+    name: 'SecondDuplicateCommand',
+    description: 'Second',
+    tags: ['Test'],
+    method: 'get',
+    path: '/second',
+    response: z.object({b: z.number()}).openapi('Duplicate'),
+    responses: {200: 'OK'},
+  });
+  commands.add(first);
+  commands.add(second);
+  expect(() => openapiDocument({commands})).toThrow(
+    'schemas/Duplicate is used by 2 schemas'
+  );
+});
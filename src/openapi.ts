@@ -0,0 +1,331 @@
+import {
+  OpenApiGeneratorV31,
+  OpenAPIRegistry,
+} from '@asteasolutions/zod-to-openapi';
+import * as yaml from 'js-yaml';
+import {
+  commandRegistry,
+  CommandRegistry,
+  ErrorResponse,
+  MediaType,
+  z,
+} from './types/index.js';
+import {DEFAULT_AUTH_TOKEN_URL, DEFAULT_BASE_URL} from './defaults.js';
+import {OpenApiValidationError} from './errors.js';
+
+/**
+ * An OpenAPI document as produced by the generator.
+ */
+export type OpenApiDocument = ReturnType<
+  OpenApiGeneratorV31['generateDocument']
+>;
+
+/**
+ * A server or environment the API is available at.
+ */
+export interface OpenApiServer {
+  readonly url: string;
+  readonly description?: string;
+}
+
+/**
+ * Options for generating an OpenAPI document.
+ */
+export interface OpenApiOptions {
+  /**
+   * The format of the document. Defaults to yaml.
+   */
+  readonly format?: 'yaml' | 'json';
+  /**
+   * Defaults to Xcor Platform API.
+   */
+  readonly title?: string;
+  /**
+   * Defaults to 1.0.
+   */
+  readonly version?: string;
+  readonly description?: string;
+  /**
+   * The servers the API is available at. Defaults to the production API.
+   */
+  readonly servers?: OpenApiServer[];
+  /**
+   * The token URL of the OAuth2 client credentials security scheme. Defaults to the AuthSure token endpoint.
+   */
+  readonly tokenUrl?: string;
+  /**
+   * The scopes of the OAuth2 security scheme and their descriptions.
+   */
+  readonly scopes?: Record<string, string>;
+  /**
+   * The commands to document. Defaults to every command defined with defineCommand.
+   */
+  readonly commands?: CommandRegistry;
+}
+
+/**
+ * The name of the OAuth2 client credentials security scheme required by every operation.
+ */
+export const SECURITY_SCHEME = 'oauth2';
+
+/**
+ * Error responses any operation may return, keyed by status. They are documented once under
+ * components/responses and referenced from each operation that does not describe the status itself.
+ */
+const SHARED_RESPONSES: Record<string, {name: string; description: string}> = {
+  400: {name: 'BadRequest', description: 'The request is invalid'},
+  401: {
+    name: 'Unauthorized',
+    description: 'The access token is missing or invalid',
+  },
+  403: {
+    name: 'Forbidden',
+    description: 'The access token does not grant access to the resource',
+  },
+  429: {name: 'TooManyRequests', description: 'Too many requests were made'},
+  500: {name: 'InternalServerError', description: 'The API failed'},
+};
+
+/**
+ * The keys of a path item that hold operations with response bodies. Head is left out as its error responses have
+ * no ErrorResponse body.
+ */
+const OPERATION_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'patch',
+  'trace',
+] as const;
+
+function isZodType(value: unknown): value is z.ZodTypeAny {
+  return value instanceof z.ZodType;
+}
+
+/**
+ * Returns the schemas a schema is built from, such as the properties of an object or the schema wrapped by
+ * optional, transform or lazy.
+ */
+function childrenOf(schema: z.ZodTypeAny): z.ZodTypeAny[] {
+  if (schema instanceof z.ZodObject) {
+    return Object.values(schema.shape);
+  }
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable ||
+    schema instanceof z.ZodDefault ||
+    schema instanceof z.ZodCatch ||
+    schema instanceof z.ZodReadonly
+  ) {
+    return [schema._def.innerType];
+  }
+  if (schema instanceof z.ZodBranded) {
+    return [schema._def.type];
+  }
+  if (schema instanceof z.ZodEffects) {
+    return [schema._def.schema];
+  }
+  if (schema instanceof z.ZodLazy) {
+    return [schema.schema];
+  }
+  if (schema instanceof z.ZodArray) {
+    return [schema.element];
+  }
+  if (schema instanceof z.ZodSet) {
+    return [schema._def.valueType];
+  }
+  if (schema instanceof z.ZodRecord || schema instanceof z.ZodMap) {
+    return [schema.keySchema, schema.valueSchema];
+  }
+  if (
+    schema instanceof z.ZodUnion ||
+    schema instanceof z.ZodDiscriminatedUnion
+  ) {
+    return [...schema.options];
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return [schema._def.left, schema._def.right];
+  }
+  if (schema instanceof z.ZodTuple) {
+    return [...schema.items, schema._def.rest].filter(isZodType);
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return [schema._def.in, schema._def.out];
+  }
+  if (schema instanceof z.ZodPromise) {
+    return [schema.unwrap()];
+  }
+  return [];
+}
+
+/**
+ * Records every schema named with .openapi(name) reachable from the schema. Modifiers such as optional share the
+ * metadata of the schema they modify, so only one schema is kept per metadata.
+ */
+function collectNamedSchemas(
+  schema: unknown,
+  found: Map<string, Map<unknown, z.ZodTypeAny>>,
+  visited = new Set<unknown>()
+): void {
+  if (!isZodType(schema) || visited.has(schema)) {
+    return;
+  }
+  visited.add(schema);
+  const openapi = (schema._def as {openapi?: {_internal?: {refId?: string}}})
+    .openapi;
+  const refId = openapi?._internal?.refId;
+  if (refId !== undefined) {
+    const schemas = found.get(refId) ?? new Map();
+    schemas.set(openapi, schema);
+    found.set(refId, schemas);
+  }
+  for (const child of childrenOf(schema)) {
+    collectNamedSchemas(child, found, visited);
+  }
+}
+
+function componentOf(schema: z.ZodTypeAny, name: string): string {
+  const {components} = new OpenApiGeneratorV31([schema]).generateComponents();
+  return JSON.stringify(components?.schemas?.[name]);
+}
+
+/**
+ * Checks that no component name is used for more than one component. The generator silently keeps only the
+ * first schema with a given name, so a duplicate produces a document that describes the wrong schema. Schemas
+ * that generate the same component are not duplicates.
+ *
+ * @param registry The registry to check
+ */
+export function validateOpenApi(registry: OpenAPIRegistry): void {
+  const schemas = new Map<string, Map<unknown, z.ZodTypeAny>>();
+  const components = new Map<string, number>();
+  const problems: string[] = [];
+  for (const definition of registry.definitions) {
+    switch (definition.type) {
+      case 'schema':
+      case 'parameter':
+        collectNamedSchemas(definition.schema, schemas);
+        break;
+      case 'component': {
+        const key = `${definition.componentType}/${definition.name}`;
+        components.set(key, (components.get(key) ?? 0) + 1);
+        break;
+      }
+      case 'route':
+      case 'webhook': {
+        const route =
+          definition.type === 'route' ? definition.route : definition.webhook;
+        const {request, responses} = route;
+        collectNamedSchemas(request?.params, schemas);
+        collectNamedSchemas(request?.query, schemas);
+        collectNamedSchemas(request?.cookies, schemas);
+        for (const header of [request?.headers].flat()) {
+          collectNamedSchemas(header, schemas);
+        }
+        const contents = [
+          request?.body?.content,
+          ...Object.values(responses).map(response => response.content),
+        ];
+        for (const content of contents) {
+          for (const media of Object.values(content ?? {})) {
+            collectNamedSchemas(media?.schema, schemas);
+          }
+        }
+        break;
+      }
+    }
+  }
+  for (const [name, named] of schemas) {
+    // Only generate components for names with more than one schema as the generator rejects schemas such as lazy
+    const distinct =
+      named.size > 1
+        ? new Set([...named.values()].map(schema => componentOf(schema, name)))
+            .size
+        : 1;
+    if (distinct > 1) {
+      problems.push(`schemas/${name} is used by ${distinct} schemas`);
+    }
+    if (components.has(`schemas/${name}`)) {
+      problems.push(`schemas/${name} is registered more than once`);
+    }
+  }
+  for (const [key, count] of components) {
+    if (count > 1) {
+      problems.push(`${key} is registered more than once`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new OpenApiValidationError(problems);
+  }
+}
+
+/**
+ * Builds an OpenAPI document describing the commands of the Xcor Platform API.
+ *
+ * @param options Options for the document
+ */
+export function openapiDocument(options?: OpenApiOptions): OpenApiDocument {
+  const registry = new OpenAPIRegistry();
+  registry.register('ErrorResponse', ErrorResponse);
+  (options?.commands ?? commandRegistry).register(registry);
+  registry.registerComponent('securitySchemes', SECURITY_SCHEME, {
+    type: 'oauth2',
+    flows: {
+      clientCredentials: {
+        tokenUrl: options?.tokenUrl ?? DEFAULT_AUTH_TOKEN_URL,
+        scopes: options?.scopes ?? {},
+      },
+    },
+  });
+  for (const {name, description} of Object.values(SHARED_RESPONSES)) {
+    registry.registerComponent('responses', name, {
+      description,
+      content: {
+        [MediaType.ERROR_RESPONSE]: {
+          schema: {$ref: '#/components/schemas/ErrorResponse'},
+        },
+      },
+    });
+  }
+  validateOpenApi(registry);
+
+  const generator = new OpenApiGeneratorV31(registry.definitions);
+  const document = generator.generateDocument({
+    openapi: '3.1.0',
+    info: {
+      version: options?.version ?? '1.0',
+      title: options?.title ?? 'Xcor Platform API',
+      description: options?.description,
+    },
+    servers: (options?.servers ?? [{url: DEFAULT_BASE_URL}]).map(server => ({
+      ...server,
+    })),
+    security: [{[SECURITY_SCHEME]: []}],
+  });
+  for (const path of Object.values(document.paths ?? {})) {
+    for (const method of OPERATION_METHODS) {
+      const responses = path[method]?.responses;
+      if (responses === undefined) {
+        continue;
+      }
+      for (const [status, {name}] of Object.entries(SHARED_RESPONSES)) {
+        responses[status] ??= {$ref: `#/components/responses/${name}`};
+      }
+    }
+  }
+  return document;
+}
+
+/**
+ * Generates an OpenAPI document describing the commands of the Xcor Platform API as YAML or JSON.
+ *
+ * @param options Options for the document
+ */
+export function generateOpenApi(options?: OpenApiOptions): string {
+  const document = openapiDocument(options);
+  return options?.format === 'json'
+    ? JSON.stringify(document, null, 2)
+    : yaml.dump(document);
+}
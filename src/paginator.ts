@@ -0,0 +1,133 @@
+import {CommandRequest, CommandResponse} from './types/index.js';
+
+/**
+ * The request data shape of a command that supports pagination.
+ */
+export interface PageRequest {
+  /**
+   * The opaque cursor returned in the next field of the previous page.
+   */
+  readonly next?: string;
+}
+
+/**
+ * The response data shape of a command that supports pagination.
+ *
+ * @template Item - The type of the items in the page.
+ */
+export interface Page<Item> {
+  readonly items: Item[];
+  readonly next?: string;
+}
+
+/**
+ * Options used to limit pagination.
+ */
+export interface PaginateOptions {
+  /**
+   * The maximum number of items to return across all pages.
+   */
+  readonly maxItems?: number;
+  /**
+   * The maximum number of pages to request.
+   */
+  readonly maxPages?: number;
+}
+
+/**
+ * A command that returns a page of items. The command constructor must accept the request data as its
+ * only argument so the next page can be requested with the same command type.
+ */
+export type PaginatedCommand<Req extends PageRequest, Item> = CommandRequest<
+  Req,
+  Page<Item>
+>;
+
+type PaginatedCommandConstructor<Req extends PageRequest, Item> = new (
+  data: Req
+) => PaginatedCommand<Req, Item>;
+
+/**
+ * Iterates over the items of a paginated command, following the next cursor until there are no more pages
+ * or a limit is reached. Errors returned by the API are thrown from the iterator.
+ *
+ * @template Req - The type of the request data.
+ * @template Item - The type of the items in each page.
+ */
+export class Paginator<Req extends PageRequest, Item>
+  implements AsyncIterable<Item>
+{
+  protected readonly send: (
+    command: PaginatedCommand<Req, Item>
+  ) => Promise<CommandResponse<Page<Item>>>;
+  protected readonly command: PaginatedCommand<Req, Item>;
+  protected readonly options: PaginateOptions;
+
+  constructor(
+    send: (
+      command: PaginatedCommand<Req, Item>
+    ) => Promise<CommandResponse<Page<Item>>>,
+    command: PaginatedCommand<Req, Item>,
+    options?: PaginateOptions
+  ) {
+    this.send = send;
+    this.command = command;
+    this.options = options ?? {};
+  }
+
+  /**
+   * Iterates over each page. The maxItems limit truncates the items of the last page returned.
+   */
+  async *pages(): AsyncGenerator<Page<Item>, void, undefined> {
+    const maxItems = this.options.maxItems ?? Number.POSITIVE_INFINITY;
+    const maxPages = this.options.maxPages ?? Number.POSITIVE_INFINITY;
+    let command = this.command;
+    let itemCount = 0;
+    let pageCount = 0;
+    while (pageCount < maxPages && itemCount < maxItems) {
+      const response = await this.send(command);
+      if (response.error) {
+        throw response.error;
+      }
+      if (response.data === undefined) {
+        return;
+      }
+      pageCount++;
+      const items = response.data.items.slice(0, maxItems - itemCount);
+      itemCount += items.length;
+      yield {items, next: response.data.next};
+      if (!response.data.next) {
+        return;
+      }
+      command = this.nextCommand(command, response.data.next);
+    }
+  }
+
+  /**
+   * Iterates over each item across all pages.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<Item, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Collects all items into an array.
+   */
+  async toArray(): Promise<Item[]> {
+    const items: Item[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  protected nextCommand(
+    command: PaginatedCommand<Req, Item>,
+    next: string
+  ): PaginatedCommand<Req, Item> {
+    const ctor = command.constructor as PaginatedCommandConstructor<Req, Item>;
+    return new ctor({...command.data, next});
+  }
+}
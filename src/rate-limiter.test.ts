@@ -0,0 +1,80 @@
+import * as logging from '@nr1e/logging';
+import {RateLimiter} from './rate-limiter.js';
+import {XcorPlatformClient} from './xcorplatform-client.js';
+import {StaticTokenProvider} from './token-providers.js';
+import {MockTransport} from './testing/index.js';
+import {MediaType} from './types/index.js';
+
+// The jest global is not injected into ES modules
+const timers = (import.meta as unknown as {jest: typeof jest}).jest;
+
+beforeAll(async () => {
+  await logging.initialize({svc: 'xcorplatform-client', level: 'silent'});
+});
+
+beforeEach(() => {
+  timers.useFakeTimers();
+});
+
+afterEach(() => {
+  timers.useRealTimers();
+});
+
+test('Allows a burst then limits to the rate', async () => {
+  const limiter = new RateLimiter({requestsPerSecond: 2, burst: 3});
+  for (let i = 0; i < 3; i++) {
+    await limiter.acquire();
+  }
+  expect(limiter.status()).toEqual({
+    requestsPerSecond: 2,
+    burst: 3,
+    available: 0,
+    waiting: 0,
+  });
+  const sent: number[] = [];
+  const waits = [1, 2].map(n => limiter.acquire().then(() => sent.push(n)));
+  expect(limiter.status().waiting).toBe(2);
+  await timers.advanceTimersByTimeAsync(499);
+  expect(sent).toEqual([]);
+  await timers.advanceTimersByTimeAsync(1);
+  expect(sent).toEqual([1]);
+  await timers.advanceTimersByTimeAsync(500);
+  await Promise.all(waits);
+  expect(sent).toEqual([1, 2]);
+  await timers.advanceTimersByTimeAsync(10000);
+  expect(limiter.status().available).toBe(3);
+
+  const controller = new AbortController();
+  await limiter.acquire();
+  await limiter.acquire();
+  await limiter.acquire();
+  const cancelled = limiter.acquire(controller.signal);
+  controller.abort();
+  await cancelled;
+  await timers.advanceTimersByTimeAsync(500);
+  expect(limiter.status()).toMatchObject({available: 1, waiting: 0});
+});
+
+test('Limits requests sent by a client', async () => {
+  const transport = new MockTransport(() => ({
+    status: 200,
+    headers: {'content-type': MediaType.GET_ORG_RESPONSE},
+    data: {id: 'acme', name: 'Acme'},
+  }));
+  const client = new XcorPlatformClient({
+    transport,
+    tokenProvider: new StaticTokenProvider('abc'),
+    rateLimit: {requestsPerSecond: 10, burst: 2},
+  });
+  const calls = Promise.all(
+    Array.from({length: 4}, () => client.orgs.get('acme'))
+  );
+  await timers.advanceTimersByTimeAsync(0);
+  expect(transport.requests).toHaveLength(2);
+  await timers.advanceTimersByTimeAsync(100);
+  expect(transport.requests).toHaveLength(3);
+  await timers.advanceTimersByTimeAsync(100);
+  await calls;
+  expect(transport.requests).toHaveLength(4);
+  expect(client.rateLimiter?.status().available).toBe(0);
+});
@@ -0,0 +1,116 @@
+import {sleep} from './cancellation.js';
+
+/**
+ * RateLimitConfig is used to configure the token bucket that limits how fast requests are sent.
+ */
+export interface RateLimitConfig {
+  /**
+   * The number of requests sent per second on average.
+   */
+  readonly requestsPerSecond: number;
+  /**
+   * The number of requests that may be sent at once after the client has been idle. Default is requestsPerSecond
+   * rounded up.
+   */
+  readonly burst?: number;
+}
+
+/**
+ * The current state of a RateLimiter, such as for a health check.
+ */
+export interface RateLimiterStatus {
+  readonly requestsPerSecond: number;
+  readonly burst: number;
+  /**
+   * The number of requests that may be sent now without waiting.
+   */
+  readonly available: number;
+  /**
+   * The number of requests waiting to be sent.
+   */
+  readonly waiting: number;
+}
+
+/**
+ * A token bucket that limits how fast requests are sent. The bucket holds up to burst tokens and refills at
+ * requestsPerSecond. Each request takes a token, waiting for one if the bucket is empty. Waiting requests are
+ * sent in the order they arrived.
+ */
+export class RateLimiter {
+  readonly requestsPerSecond: number;
+  readonly burst: number;
+  /**
+   * Negative while requests are waiting, each of which has reserved a token that is not yet available.
+   */
+  protected tokens: number;
+  protected refilledAt: number;
+  protected waiting = 0;
+
+  /**
+   * Create a new RateLimiter with a full bucket.
+   *
+   * @param config The rate and burst of the limiter
+   */
+  constructor(config: RateLimitConfig) {
+    if (!(config.requestsPerSecond > 0)) {
+      throw new Error('requestsPerSecond must be greater than 0');
+    }
+    this.requestsPerSecond = config.requestsPerSecond;
+    this.burst = Math.max(
+      1,
+      Math.floor(config.burst ?? Math.ceil(config.requestsPerSecond))
+    );
+    this.tokens = this.burst;
+    this.refilledAt = Date.now();
+  }
+
+  protected refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + ((now - this.refilledAt) * this.requestsPerSecond) / 1000
+    );
+    this.refilledAt = now;
+  }
+
+  /**
+   * Takes a token, waiting until one is available. Resolves early without taking a token if the signal is
+   * aborted.
+   *
+   * @param signal The signal that ends the wait
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return;
+    }
+    this.refill();
+    this.tokens--;
+    if (this.tokens >= 0) {
+      return;
+    }
+    const delay = Math.ceil((-this.tokens * 1000) / this.requestsPerSecond);
+    this.waiting++;
+    try {
+      await sleep(delay, signal);
+    } finally {
+      this.waiting--;
+    }
+    if (signal?.aborted) {
+      this.refill();
+      this.tokens = Math.min(this.burst, this.tokens + 1);
+    }
+  }
+
+  /**
+   * The current state of the limiter.
+   */
+  status(): RateLimiterStatus {
+    this.refill();
+    return {
+      requestsPerSecond: this.requestsPerSecond,
+      burst: this.burst,
+      available: Math.max(0, Math.floor(this.tokens)),
+      waiting: this.waiting,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * The value logged in place of a redacted header or field.
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Headers redacted from logs by default.
+ */
+export const DEFAULT_REDACTED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+];
+
+/**
+ * Body fields redacted from logs by default.
+ */
+export const DEFAULT_REDACTED_FIELDS = [
+  'password',
+  'secret',
+  'client_secret',
+  'clientSecret',
+  'token',
+  'access_token',
+  'accessToken',
+  'refresh_token',
+  'refreshToken',
+  'id_token',
+  'email',
+];
+
+/**
+ * Controls what is removed from headers and bodies before they are logged.
+ */
+export interface RedactionConfig {
+  /**
+   * Names of headers whose values are redacted. Matching ignores case. Replaces DEFAULT_REDACTED_HEADERS, so
+   * spread it to add to the defaults.
+   */
+  readonly headers?: string[];
+  /**
+   * Names of body fields whose values are redacted at any depth. Matching ignores case. Replaces
+   * DEFAULT_REDACTED_FIELDS, so spread it to add to the defaults.
+   */
+  readonly fields?: string[];
+}
+
+/**
+ * Returns a copy of the headers with the values of the given headers redacted.
+ *
+ * @param headers The headers to redact
+ * @param names The names of the headers to redact
+ */
+export function redactHeaders(
+  headers: Record<string, string>,
+  names: string[] = DEFAULT_REDACTED_HEADERS
+): Record<string, string> {
+  const redacted = new Set(names.map(name => name.toLowerCase()));
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = redacted.has(name.toLowerCase()) ? REDACTED : value;
+  }
+  return result;
+}
+
+/**
+ * Returns a copy of the value with the given fields redacted from it and any objects or arrays it contains.
+ *
+ * @param value The value to redact
+ * @param fields The names of the fields to redact
+ */
+export function redactFields(
+  value: unknown,
+  fields: string[] = DEFAULT_REDACTED_FIELDS
+): unknown {
+  const redacted = new Set(fields.map(field => field.toLowerCase()));
+  const redact = (v: unknown): unknown => {
+    if (Array.isArray(v)) {
+      return v.map(redact);
+    }
+    if (typeof v !== 'object' || v === null) {
+      return v;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(v)) {
+      result[key] = redacted.has(key.toLowerCase()) ? REDACTED : redact(field);
+    }
+    return result;
+  };
+  return redact(value);
+}
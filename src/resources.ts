@@ -0,0 +1,349 @@
+import type {XcorPlatformClient} from './xcorplatform-client.js';
+import {
+  AcceptInviteCommand,
+  AppExistsCommand,
+  CreateAppCommand,
+  CreateOrgCommand,
+  DeleteAppCommand,
+  DeleteOrgCommand,
+  FindAppCommand,
+  FindOrgCommand,
+  GetAppCommand,
+  GetOrgCommand,
+  GetOrgMemberCommand,
+  ICreateAppRequest,
+  ICreateOrgRequest,
+  IFindAppRequest,
+  IFindAppResponse,
+  IFindOrgRequest,
+  IFindOrgResponse,
+  IGetAppResponse,
+  IGetOrgResponse,
+  IInvite,
+  IInviteRequest,
+  IListInvitesRequest,
+  IListInvitesResponse,
+  IListOrgMembersRequest,
+  IListOrgMembersResponse,
+  InviteCommand,
+  IOrgMember,
+  IUpdateAppRequest,
+  IUpdateOrgRequest,
+  IUserInfoResponse,
+  ListInvitesCommand,
+  ListOrgMembersCommand,
+  RemoveOrgMemberCommand,
+  ResendInviteCommand,
+  RevokeInviteCommand,
+  UpdateAppCommand,
+  UpdateOrgCommand,
+  UpdateOrgMemberRolesCommand,
+  UserInfoCommand,
+} from './types/index.js';
+import {PaginateOptions, Paginator} from './paginator.js';
+import {NotFoundError} from './errors.js';
+
+type FindOrgItem = IFindOrgResponse['items'][number];
+type FindAppItem = IFindAppResponse['items'][number];
+
+/**
+ * Operations on orgs. Failures are thrown as errors.
+ */
+export class OrgResource {
+  constructor(protected readonly client: XcorPlatformClient) {}
+
+  /**
+   * Get an org by ID.
+   *
+   * @param id The ID of the org.
+   */
+  get(id: string): Promise<IGetOrgResponse> {
+    return this.client.execute(new GetOrgCommand({id}));
+  }
+
+  /**
+   * Create a new org.
+   *
+   * @param data The org to create.
+   */
+  async create(data: ICreateOrgRequest): Promise<void> {
+    await this.client.execute(new CreateOrgCommand(data));
+  }
+
+  /**
+   * Update an existing org.
+   *
+   * @param data The org to update.
+   * @param ifMatch Only update the org if it still has this ETag.
+   */
+  async update(data: IUpdateOrgRequest, ifMatch?: string): Promise<void> {
+    const command = new UpdateOrgCommand(data);
+    await this.client.execute(ifMatch ? command.ifMatch(ifMatch) : command);
+  }
+
+  /**
+   * Delete an org by ID.
+   *
+   * @param id The ID of the org.
+   * @param ifMatch Only delete the org if it still has this ETag.
+   */
+  async delete(id: string, ifMatch?: string): Promise<void> {
+    const command = new DeleteOrgCommand({id});
+    await this.client.execute(ifMatch ? command.ifMatch(ifMatch) : command);
+  }
+
+  /**
+   * Find a single page of orgs.
+   *
+   * @param data The search criteria and the cursor of the page to return.
+   */
+  find(data: IFindOrgRequest): Promise<IFindOrgResponse> {
+    return this.client.execute(new FindOrgCommand(data));
+  }
+
+  /**
+   * Iterate over all orgs matching the search criteria.
+   *
+   * @param data The search criteria.
+   * @param options Limits on the number of items or pages requested.
+   */
+  iterate(
+    data: IFindOrgRequest,
+    options?: PaginateOptions
+  ): Paginator<IFindOrgRequest, FindOrgItem> {
+    return this.client.paginate(new FindOrgCommand(data), options);
+  }
+}
+
+/**
+ * Operations on apps. Failures are thrown as errors.
+ */
+export class AppResource {
+  constructor(protected readonly client: XcorPlatformClient) {}
+
+  /**
+   * Get an app by ID.
+   *
+   * @param id The ID of the app.
+   */
+  get(id: string): Promise<IGetAppResponse> {
+    return this.client.execute(new GetAppCommand({id}));
+  }
+
+  /**
+   * Create a new app.
+   *
+   * @param data The app to create.
+   */
+  async create(data: ICreateAppRequest): Promise<void> {
+    await this.client.execute(new CreateAppCommand(data));
+  }
+
+  /**
+   * Update an existing app.
+   *
+   * @param data The app to update.
+   * @param ifMatch Only update the app if it still has this ETag.
+   */
+  async update(data: IUpdateAppRequest, ifMatch?: string): Promise<void> {
+    const command = new UpdateAppCommand(data);
+    await this.client.execute(ifMatch ? command.ifMatch(ifMatch) : command);
+  }
+
+  /**
+   * Delete an app by ID.
+   *
+   * @param id The ID of the app.
+   * @param ifMatch Only delete the app if it still has this ETag.
+   */
+  async delete(id: string, ifMatch?: string): Promise<void> {
+    const command = new DeleteAppCommand({id});
+    await this.client.execute(ifMatch ? command.ifMatch(ifMatch) : command);
+  }
+
+  /**
+   * Check if an app exists.
+   *
+   * @param id The ID of the app.
+   */
+  async exists(id: string): Promise<boolean> {
+    try {
+      await this.client.execute(new AppExistsCommand({id}));
+      return true;
+    } catch (err) {
+      if (err instanceof NotFoundError) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Find a single page of apps.
+   *
+   * @param data The search criteria and the cursor of the page to return.
+   */
+  find(data: IFindAppRequest): Promise<IFindAppResponse> {
+    return this.client.execute(new FindAppCommand(data));
+  }
+
+  /**
+   * Iterate over all apps matching the search criteria.
+   *
+   * @param data The search criteria.
+   * @param options Limits on the number of items or pages requested.
+   */
+  iterate(
+    data: IFindAppRequest,
+    options?: PaginateOptions
+  ): Paginator<IFindAppRequest, FindAppItem> {
+    return this.client.paginate(new FindAppCommand(data), options);
+  }
+}
+
+/**
+ * Operations on users. Failures are thrown as errors.
+ */
+export class UserResource {
+  constructor(protected readonly client: XcorPlatformClient) {}
+
+  /**
+   * Get information about the authenticated user.
+   */
+  me(): Promise<IUserInfoResponse> {
+    return this.client.execute(new UserInfoCommand());
+  }
+}
+
+/**
+ * Operations on invites. Failures are thrown as errors.
+ */
+export class InviteResource {
+  constructor(protected readonly client: XcorPlatformClient) {}
+
+  /**
+   * Invite a user to an org.
+   *
+   * @param data The email of the user, the org to invite them to and the roles to grant.
+   */
+  send(data: IInviteRequest): Promise<IInvite> {
+    return this.client.execute(new InviteCommand(data));
+  }
+
+  /**
+   * List a single page of the invites of an org.
+   *
+   * @param data The org, an optional status and the cursor of the page to return.
+   */
+  list(data: IListInvitesRequest): Promise<IListInvitesResponse> {
+    return this.client.execute(new ListInvitesCommand(data));
+  }
+
+  /**
+   * Iterate over all invites of an org.
+   *
+   * @param data The org and an optional status.
+   * @param options Limits on the number of items or pages requested.
+   */
+  iterate(
+    data: IListInvitesRequest,
+    options?: PaginateOptions
+  ): Paginator<IListInvitesRequest, IInvite> {
+    return this.client.paginate(new ListInvitesCommand(data), options);
+  }
+
+  /**
+   * Send a pending invite again, extending its expiry.
+   *
+   * @param id The ID of the invite.
+   */
+  resend(id: string): Promise<IInvite> {
+    return this.client.execute(new ResendInviteCommand({id}));
+  }
+
+  /**
+   * Revoke a pending invite.
+   *
+   * @param id The ID of the invite.
+   */
+  async revoke(id: string): Promise<void> {
+    await this.client.execute(new RevokeInviteCommand({id}));
+  }
+
+  /**
+   * Accept an invite as the invited user.
+   *
+   * @param id The ID of the invite.
+   * @returns The membership granted by the invite.
+   */
+  accept(id: string): Promise<IOrgMember> {
+    return this.client.execute(new AcceptInviteCommand({id}));
+  }
+}
+
+/**
+ * Operations on the members of an org. Failures are thrown as errors.
+ */
+export class MemberResource {
+  constructor(protected readonly client: XcorPlatformClient) {}
+
+  /**
+   * List a single page of the members of an org.
+   *
+   * @param orgId The ID of the org.
+   * @param next The cursor of the page to return.
+   */
+  list(orgId: string, next?: string): Promise<IListOrgMembersResponse> {
+    return this.client.execute(new ListOrgMembersCommand({orgId, next}));
+  }
+
+  /**
+   * Iterate over all members of an org.
+   *
+   * @param orgId The ID of the org.
+   * @param options Limits on the number of items or pages requested.
+   */
+  iterate(
+    orgId: string,
+    options?: PaginateOptions
+  ): Paginator<IListOrgMembersRequest, IOrgMember> {
+    return this.client.paginate(new ListOrgMembersCommand({orgId}), options);
+  }
+
+  /**
+   * Get a member of an org.
+   *
+   * @param orgId The ID of the org.
+   * @param userId The ID of the user.
+   */
+  get(orgId: string, userId: string): Promise<IOrgMember> {
+    return this.client.execute(new GetOrgMemberCommand({orgId, userId}));
+  }
+
+  /**
+   * Replace the roles of a member of an org.
+   *
+   * @param orgId The ID of the org.
+   * @param userId The ID of the user.
+   * @param roles The roles the member has after the update.
+   */
+  async updateRoles(
+    orgId: string,
+    userId: string,
+    roles: string[]
+  ): Promise<void> {
+    await this.client.execute(
+      new UpdateOrgMemberRolesCommand({orgId, userId, roles})
+    );
+  }
+
+  /**
+   * Remove a member from an org.
+   *
+   * @param orgId The ID of the org.
+   * @param userId The ID of the user.
+   */
+  async remove(orgId: string, userId: string): Promise<void> {
+    await this.client.execute(new RemoveOrgMemberCommand({orgId, userId}));
+  }
+}
@@ -0,0 +1,102 @@
+import * as logging from '@nr1e/logging';
+import {MemoryResponseCache} from './response-cache.js';
+import {XcorPlatformClient} from './xcorplatform-client.js';
+import {
+  NotFoundError,
+  NotModifiedError,
+  PreconditionFailedError,
+} from './errors.js';
+import {FakeXcorPlatform} from './testing/index.js';
+import {
+  GetOrgCommand,
+  toCommandResult,
+  UpdateOrgCommand,
+} from './types/index.js';
+
+beforeAll(async () => {
+  await logging.initialize({svc: 'xcorplatform-client', level: 'silent'});
+});
+
+test('Serves unchanged responses from the cache', async () => {
+  const platform = new FakeXcorPlatform({orgs: [{id: 'acme', name: 'Acme'}]});
+  const transport = platform.transport();
+  const cache = new MemoryResponseCache();
+  const client = new XcorPlatformClient({transport, responseCache: cache});
+
+  const first = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(first.etag).toMatch(/^".+"$/);
+  expect(first.cached).toBeUndefined();
+  const second = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(transport.requests[1].headers['if-none-match']).toBe(first.etag);
+  expect(second).toMatchObject({
+    data: {id: 'acme', name: 'Acme'},
+    httpStatus: 200,
+    etag: first.etag,
+    cached: true,
+  });
+
+  platform.orgs.set('acme', {id: 'acme', name: 'Acme Co'});
+  const changed = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(changed.data).toEqual({id: 'acme', name: 'Acme Co'});
+  expect(changed.cached).toBeUndefined();
+  expect(changed.etag).not.toBe(first.etag);
+
+  expect(
+    toCommandResult(await client.send(new GetOrgCommand({id: 'acme'})))
+  ).toMatchObject({ok: true, etag: changed.etag, cached: true});
+
+  platform.orgs.delete('acme');
+  await expect(client.orgs.get('acme')).rejects.toThrow(NotFoundError);
+  expect(cache.size).toBe(0);
+});
+
+test('Reports 304 to conditions set without a cache', async () => {
+  const platform = new FakeXcorPlatform({orgs: [{id: 'acme', name: 'Acme'}]});
+  const client = new XcorPlatformClient({transport: platform.transport()});
+  const {etag} = await client.send(new GetOrgCommand({id: 'acme'}));
+  client.use(async (context, next) => {
+    context.headers['if-none-match'] = etag!;
+    return next();
+  });
+
+  const response = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(response).toMatchObject({httpStatus: 304, notModified: true});
+  expect(response.data).toBeUndefined();
+  expect(response.error).toBeUndefined();
+  await expect(client.orgs.get('acme')).rejects.toThrow(NotModifiedError);
+});
+
+test('Updates and deletes fail if the resource changed', async () => {
+  const platform = new FakeXcorPlatform({orgs: [{id: 'acme', name: 'Acme'}]});
+  const client = new XcorPlatformClient({transport: platform.transport()});
+  const {etag} = await client.send(new GetOrgCommand({id: 'acme'}));
+
+  await client.orgs.update({id: 'acme', name: 'Acme Co'}, etag);
+  const update = new UpdateOrgCommand({id: 'acme', name: 'Acme Inc'});
+  const conditional = update.ifMatch(etag!);
+  expect(conditional).toBeInstanceOf(UpdateOrgCommand);
+  expect(conditional.data).toBe(update.data);
+  expect(update.props.headers).toBeUndefined();
+  const stale = await client.send(conditional);
+  expect(stale.error).toBeInstanceOf(PreconditionFailedError);
+  expect(stale.httpStatus).toBe(412);
+  await expect(client.orgs.delete('acme', etag)).rejects.toThrow(
+    PreconditionFailedError
+  );
+  expect(platform.orgs.get('acme')?.name).toBe('Acme Co');
+
+  const current = await client.send(new GetOrgCommand({id: 'acme'}));
+  await client.orgs.delete('acme', current.etag);
+  expect(platform.orgs.has('acme')).toBe(false);
+});
+
+test('Evicts the least recently used response', async () => {
+  const cache = new MemoryResponseCache(2);
+  await cache.set('a', {data: 'a', httpStatus: 200, etag: '"a"'});
+  await cache.set('b', {data: 'b', httpStatus: 200, etag: '"b"'});
+  await cache.get('a');
+  await cache.set('c', {data: 'c', httpStatus: 200, etag: '"c"'});
+  expect(await cache.get('b')).toBeUndefined();
+  expect((await cache.get('a'))?.data).toBe('a');
+  expect(cache.size).toBe(2);
+});
@@ -0,0 +1,78 @@
+/**
+ * A response stored in a ResponseCache along with the validators used to revalidate it.
+ */
+export interface CachedResponse {
+  readonly data: unknown;
+  readonly httpStatus: number;
+  readonly contentType?: string;
+  readonly etag?: string;
+  readonly lastModified?: string;
+}
+
+/**
+ * Stores the responses of get commands so they can be revalidated with If-None-Match or If-Modified-Since and
+ * served from the cache when the API responds 304 Not Modified.
+ *
+ * Implementations must follow this contract:
+ * - Keys are request URLs including the query string. Entries are not keyed by credentials, so only share a
+ *   cache between clients that use the same credentials.
+ * - get resolves to undefined when there is no entry.
+ * - set replaces any existing entry for the key.
+ * - delete removes the entry for the key and resolves even if there was none.
+ * - Errors thrown by any method are ignored by callers, which send the request without conditions.
+ */
+export interface ResponseCache {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, response: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The default number of responses a MemoryResponseCache holds.
+ */
+export const DEFAULT_RESPONSE_CACHE_SIZE = 1000;
+
+/**
+ * A ResponseCache that stores responses in memory. When full, the least recently used response is removed.
+ */
+export class MemoryResponseCache implements ResponseCache {
+  protected responses = new Map<string, CachedResponse>();
+  protected readonly maxEntries: number;
+
+  /**
+   * Create a new MemoryResponseCache.
+   *
+   * @param maxEntries The maximum number of responses held. Default is 1000.
+   */
+  constructor(maxEntries?: number) {
+    this.maxEntries = Math.max(1, maxEntries ?? DEFAULT_RESPONSE_CACHE_SIZE);
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const response = this.responses.get(key);
+    if (response !== undefined) {
+      this.responses.delete(key);
+      this.responses.set(key, response);
+    }
+    return response;
+  }
+
+  async set(key: string, response: CachedResponse): Promise<void> {
+    this.responses.delete(key);
+    this.responses.set(key, response);
+    if (this.responses.size > this.maxEntries) {
+      this.responses.delete(this.responses.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.responses.delete(key);
+  }
+
+  /**
+   * The number of responses held.
+   */
+  get size(): number {
+    return this.responses.size;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * RetryPolicy is used to configure how failed requests are retried.
+ */
+export interface RetryPolicy {
+  /**
+   * The maximum number of attempts including the first. Default is 3.
+   */
+  readonly maxAttempts?: number;
+  /**
+   * The delay in milliseconds before the first retry. Each following retry doubles the delay. Default is 200.
+   */
+  readonly baseDelay?: number;
+  /**
+   * The maximum delay in milliseconds between attempts. A Retry-After header asking for a longer delay
+   * stops further retries. Default is 10000.
+   */
+  readonly maxDelay?: number;
+  /**
+   * The fraction of each delay that is randomized, from 0 to 1. Default is 0.2.
+   */
+  readonly jitter?: number;
+  /**
+   * The HTTP status codes that are retried. Default is 429, 502, 503 and 504.
+   */
+  readonly retryableStatuses?: number[];
+  /**
+   * The network error codes that are retried when no response is received.
+   * Default is ECONNRESET, ECONNREFUSED, ECONNABORTED, ETIMEDOUT, EPIPE and EAI_AGAIN.
+   */
+  readonly retryableErrors?: string[];
+  /**
+   * The HTTP methods that are retried. Default is get, head, put and delete.
+   */
+  readonly retryableMethods?: string[];
+  /**
+   * Allows post requests to be retried. Only enable this if the commands being sent are safe to repeat.
+   * Default is false.
+   */
+  readonly retryPost?: boolean;
+}
+
+/**
+ * Details of a failed attempt used to decide if it is retried.
+ */
+export interface FailedAttempt {
+  /**
+   * The HTTP method of the request.
+   */
+  readonly method: string;
+  /**
+   * The attempt number that failed, starting at 1.
+   */
+  readonly attempt: number;
+  /**
+   * The HTTP status code if a response was received.
+   */
+  readonly status?: number;
+  /**
+   * The network error code if no response was received.
+   */
+  readonly code?: string;
+  /**
+   * The value of the Retry-After header if one was received.
+   */
+  readonly retryAfter?: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY = 200;
+const DEFAULT_MAX_DELAY = 10000;
+const DEFAULT_JITTER = 0.2;
+const DEFAULT_RETRYABLE_STATUSES = [429, 502, 503, 504];
+const DEFAULT_RETRYABLE_ERRORS = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+];
+const DEFAULT_RETRYABLE_METHODS = ['get', 'head', 'put', 'delete'];
+
+/**
+ * Parses a Retry-After header value into milliseconds. Both delay seconds and HTTP dates are supported.
+ *
+ * @param value The header value
+ * @param now The current time in milliseconds
+ * @returns The delay in milliseconds or undefined if the value cannot be parsed
+ */
+export function parseRetryAfter(
+  value: string | undefined,
+  now = Date.now()
+): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value.trim(), 10) * 1000;
+  }
+  const date = Date.parse(value);
+  if (isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Determines how long to wait before retrying a failed attempt.
+ *
+ * @param policy The retry policy. If undefined, nothing is retried.
+ * @param failed The failed attempt
+ * @returns The delay in milliseconds or undefined if the attempt should not be retried
+ */
+export function retryDelay(
+  policy: RetryPolicy | undefined,
+  failed: FailedAttempt
+): number | undefined {
+  if (policy === undefined) {
+    return undefined;
+  }
+  if (failed.attempt >= (policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)) {
+    return undefined;
+  }
+  const method = failed.method.toLowerCase();
+  const methods = policy.retryableMethods ?? DEFAULT_RETRYABLE_METHODS;
+  if (
+    !methods.includes(method) &&
+    !(method === 'post' && policy.retryPost === true)
+  ) {
+    return undefined;
+  }
+  if (failed.status !== undefined) {
+    const statuses = policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+    if (!statuses.includes(failed.status)) {
+      return undefined;
+    }
+  } else {
+    const errors = policy.retryableErrors ?? DEFAULT_RETRYABLE_ERRORS;
+    if (failed.code === undefined || !errors.includes(failed.code)) {
+      return undefined;
+    }
+  }
+  const maxDelay = policy.maxDelay ?? DEFAULT_MAX_DELAY;
+  const retryAfter = parseRetryAfter(failed.retryAfter);
+  if (retryAfter !== undefined) {
+    return retryAfter <= maxDelay ? retryAfter : undefined;
+  }
+  const delay = Math.min(
+    maxDelay,
+    (policy.baseDelay ?? DEFAULT_BASE_DELAY) * 2 ** (failed.attempt - 1)
+  );
+  const jitter = Math.min(1, Math.max(0, policy.jitter ?? DEFAULT_JITTER));
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
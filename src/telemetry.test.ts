@@ -0,0 +1,112 @@
+import * as logging from '@nr1e/logging';
+import {XcorPlatformClient} from './xcorplatform-client.js';
+import {GetOrgCommand, MediaType} from './types/index.js';
+import {InMemoryMeter, InMemoryTracer, MockTransport} from './testing/index.js';
+import {
+  COMMAND_DURATION_METRIC,
+  COMMAND_ERRORS_METRIC,
+  SpanStatusCode,
+  traceparent,
+} from './telemetry.js';
+import {NotFoundError} from './errors.js';
+
+beforeAll(async () => {
+  await logging.initialize({svc: 'xcorplatform-client', level: 'silent'});
+});
+
+function transport(): MockTransport {
+  return new MockTransport(request => {
+    if (request.url.endsWith('/token')) {
+      return {
+        status: 200,
+        headers: {'content-type': 'application/json'},
+        data: {access_token: 'abc', expires_in: 3600},
+      };
+    }
+    if (request.url.includes('/orgs/missing')) {
+      return {
+        status: 404,
+        headers: {'content-type': MediaType.ERROR_RESPONSE},
+        data: {message: 'Not found'},
+      };
+    }
+    return {
+      status: 200,
+      headers: {'content-type': MediaType.GET_ORG_RESPONSE},
+      data: {id: 'acme', name: 'Acme'},
+    };
+  });
+}
+
+test('Commands and token requests are traced', async () => {
+  const tracer = new InMemoryTracer();
+  const meter = new InMemoryMeter();
+  const mock = transport();
+  const client = new XcorPlatformClient({
+    baseUrl: 'https://api.example.com',
+    transport: mock,
+    telemetry: {tracer, meter},
+    authConfig: {
+      clientId: 'client',
+      clientSecret: 'secret',
+      tokenEndpoint: 'https://auth.example.com/token',
+    },
+  });
+  await client.orgs.get('acme');
+  await expect(client.orgs.get('missing')).rejects.toThrow(NotFoundError);
+
+  const [token, get, missing] = tracer.spans;
+  expect(token.name).toBe('token');
+  expect(token.parentSpanId).toBe(get.spanId);
+  expect(token.traceId).toBe(get.traceId);
+  expect(get.name).toBe('GetOrgCommand');
+  expect(get.attributes).toMatchObject({
+    'http.request.method': 'GET',
+    'url.template': '/orgs/{id}',
+    'http.response.status_code': 200,
+  });
+  expect(get.status.code).toBe(SpanStatusCode.UNSET);
+  expect(missing.attributes['error.type']).toBe('404');
+  expect(missing.status.code).toBe(SpanStatusCode.ERROR);
+  expect(missing.exceptions[0]).toBeInstanceOf(NotFoundError);
+  expect(mock.requests[1].headers.traceparent).toBe(
+    traceparent(get.spanContext())
+  );
+
+  expect(
+    meter.measurements.filter(m => m.name === COMMAND_DURATION_METRIC)
+  ).toHaveLength(2);
+  expect(
+    meter.measurements.filter(m => m.name === COMMAND_ERRORS_METRIC)
+  ).toEqual([
+    {
+      name: COMMAND_ERRORS_METRIC,
+      value: 1,
+      attributes: expect.objectContaining({'error.type': '404'}),
+    },
+  ]);
+});
+
+test('Telemetry is a no-op without a tracer or meter', async () => {
+  const mock = transport();
+  const client = new XcorPlatformClient({transport: mock});
+  await client.execute(new GetOrgCommand({id: 'acme'}));
+  expect(mock.requests[0].headers.traceparent).toBeUndefined();
+});
+
+test('Formats traceparent headers', () => {
+  expect(
+    traceparent({
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      spanId: 'b7ad6b7169203331',
+      traceFlags: 1,
+    })
+  ).toBe('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01');
+  expect(
+    traceparent({
+      traceId: '00000000000000000000000000000000',
+      spanId: '0000000000000000',
+      traceFlags: 0,
+    })
+  ).toBeUndefined();
+});
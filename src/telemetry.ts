@@ -0,0 +1,231 @@
+import {CommandResponse} from './types/index.js';
+import {Middleware} from './middleware.js';
+import {ApiError} from './errors.js';
+
+/**
+ * Attributes recorded on spans and metrics.
+ */
+export type TelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Identifies a span. Compatible with the OpenTelemetry SpanContext.
+ */
+export interface TelemetrySpanContext {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly traceFlags: number;
+}
+
+/**
+ * The subset of the OpenTelemetry Span API used by the client.
+ */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: {code: number; message?: string}): unknown;
+  recordException(exception: Error): unknown;
+  spanContext(): TelemetrySpanContext;
+  end(): void;
+}
+
+/**
+ * Options used to start a span. Compatible with the OpenTelemetry SpanOptions.
+ */
+export interface TelemetrySpanOptions {
+  readonly kind?: number;
+  readonly attributes?: TelemetryAttributes;
+}
+
+/**
+ * The subset of the OpenTelemetry Tracer API used by the client. An OpenTelemetry Tracer can be passed as is.
+ */
+export interface TelemetryTracer {
+  startActiveSpan<F extends (span: TelemetrySpan) => unknown>(
+    name: string,
+    options: TelemetrySpanOptions,
+    fn: F
+  ): ReturnType<F>;
+}
+
+/**
+ * The subset of the OpenTelemetry Histogram API used by the client.
+ */
+export interface TelemetryHistogram {
+  record(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * The subset of the OpenTelemetry Counter API used by the client.
+ */
+export interface TelemetryCounter {
+  add(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * The subset of the OpenTelemetry Meter API used by the client. An OpenTelemetry Meter can be passed as is.
+ */
+export interface TelemetryMeter {
+  createHistogram(
+    name: string,
+    options?: {description?: string; unit?: string}
+  ): TelemetryHistogram;
+  createCounter(
+    name: string,
+    options?: {description?: string; unit?: string}
+  ): TelemetryCounter;
+}
+
+/**
+ * Configures tracing and metrics for a client. Nothing is recorded for anything not supplied.
+ */
+export interface TelemetryConfig {
+  /**
+   * Creates a span for each command and token request.
+   */
+  readonly tracer?: TelemetryTracer;
+  /**
+   * Records the duration of each command and counts failed commands.
+   */
+  readonly meter?: TelemetryMeter;
+}
+
+/**
+ * Values of the OpenTelemetry SpanKind and SpanStatusCode enums used by the client.
+ */
+export const SpanKind = {INTERNAL: 0, CLIENT: 2};
+export const SpanStatusCode = {UNSET: 0, OK: 1, ERROR: 2};
+
+/**
+ * The name of the histogram recording command durations in milliseconds.
+ */
+export const COMMAND_DURATION_METRIC = 'xcorplatform.client.command.duration';
+
+/**
+ * The name of the counter of failed commands.
+ */
+export const COMMAND_ERRORS_METRIC = 'xcorplatform.client.command.errors';
+
+/**
+ * Formats a span context as a W3C traceparent header. Returns undefined for invalid contexts such as those of
+ * non-recording spans.
+ *
+ * @param context The span context to format
+ */
+export function traceparent(context: TelemetrySpanContext): string | undefined {
+  if (
+    !/^[0-9a-f]{32}$/.test(context.traceId) ||
+    !/^[0-9a-f]{16}$/.test(context.spanId) ||
+    /^0+$/.test(context.traceId) ||
+    /^0+$/.test(context.spanId)
+  ) {
+    return undefined;
+  }
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Runs the function in a new active span, recording any error it throws. Runs the function directly if there is
+ * no tracer.
+ *
+ * @param tracer The tracer to use, if any
+ * @param name The name of the span
+ * @param options Options for the span
+ * @param fn The function to run
+ */
+export function withSpan<T>(
+  tracer: TelemetryTracer | undefined,
+  name: string,
+  options: TelemetrySpanOptions,
+  fn: (span?: TelemetrySpan) => Promise<T>
+): Promise<T> {
+  if (tracer === undefined) {
+    return fn();
+  }
+  return tracer.startActiveSpan(name, options, async span => {
+    try {
+      return await fn(span);
+    } catch (err) {
+      if (err instanceof Error) {
+        span.recordException(err);
+      }
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: err instanceof Error ? err.message : undefined,
+      });
+      throw err;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+function errorType(response: CommandResponse<unknown>): string | undefined {
+  if (response.error === undefined) {
+    return undefined;
+  }
+  return response.error instanceof ApiError && response.httpStatus > 0
+    ? String(response.httpStatus)
+    : response.error.name;
+}
+
+/**
+ * Creates a span for each command named after the command class and records command durations and errors.
+ * The span context is sent in the traceparent header so the API can continue the trace.
+ *
+ * @param config The tracer and meter to use
+ */
+export function telemetryMiddleware(config: TelemetryConfig): Middleware {
+  const duration = config.meter?.createHistogram(COMMAND_DURATION_METRIC, {
+    description: 'Duration of commands sent to the Xcor Platform API',
+    unit: 'ms',
+  });
+  const errors = config.meter?.createCounter(COMMAND_ERRORS_METRIC, {
+    description: 'Commands sent to the Xcor Platform API that failed',
+  });
+  return async (context, next) => {
+    const {method, path, route} = context.command.props;
+    const attributes: TelemetryAttributes = {
+      'http.request.method': method.toUpperCase(),
+      'url.template': route ?? path,
+      'xcorplatform.command': context.command.constructor.name,
+    };
+    const start = Date.now();
+    const response = await withSpan(
+      config.tracer,
+      context.command.constructor.name ||
+        `${method.toUpperCase()} ${route ?? path}`,
+      {kind: SpanKind.CLIENT, attributes},
+      async span => {
+        const header = span && traceparent(span.spanContext());
+        if (header) {
+          context.headers.traceparent = header;
+        }
+        const response = await next();
+        if (span) {
+          if (response.httpStatus > 0) {
+            span.setAttribute('http.response.status_code', response.httpStatus);
+          }
+          if (response.error) {
+            span.setAttribute('error.type', errorType(response)!);
+            span.recordException(response.error);
+            span.setStatus({
+              code: SpanStatusCode.ERROR,
+              message: response.error.message,
+            });
+          }
+        }
+        return response;
+      }
+    );
+    const metricAttributes: TelemetryAttributes = {...attributes};
+    if (response.httpStatus > 0) {
+      metricAttributes['http.response.status_code'] = response.httpStatus;
+    }
+    if (response.error) {
+      metricAttributes['error.type'] = errorType(response)!;
+      errors?.add(1, metricAttributes);
+    }
+    duration?.record(Date.now() - start, metricAttributes);
+    return response;
+  };
+}
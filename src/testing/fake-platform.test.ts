@@ -0,0 +1,218 @@
+import * as logging from '@nr1e/logging';
+import {XcorPlatformClient} from '../xcorplatform-client.js';
+import {StaticTokenProvider} from '../token-providers.js';
+import {
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '../errors.js';
+import {CreateOrgCommand, MediaType} from '../types/index.js';
+import {FakeXcorPlatform} from './fake-platform.js';
+import {MockTransport} from './mock-transport.js';
+
+beforeAll(async () => {
+  await logging.initialize({svc: 'xcorplatform-client', level: 'silent'});
+});
+
+function client(platform: FakeXcorPlatform): XcorPlatformClient {
+  return new XcorPlatformClient({
+    transport: platform.transport(),
+    responseValidation: 'strict',
+    retry: {maxAttempts: 1},
+  });
+}
+
+test('Org lifecycle', async () => {
+  const c = client(new FakeXcorPlatform());
+  await c.orgs.create({id: 'acme', name: 'Acme'});
+  await expect(c.orgs.create({id: 'acme', name: 'Acme'})).rejects.toThrow(
+    ConflictError
+  );
+  expect(await c.orgs.get('acme')).toEqual({id: 'acme', name: 'Acme'});
+  await c.orgs.update({id: 'acme', name: 'Acme Corp'});
+  expect((await c.orgs.get('acme')).name).toBe('Acme Corp');
+  await c.orgs.delete('acme');
+  await expect(c.orgs.get('acme')).rejects.toThrow(NotFoundError);
+  await expect(c.orgs.delete('acme')).rejects.toThrow(NotFoundError);
+});
+
+test('Find pages through results with cursors', async () => {
+  const platform = new FakeXcorPlatform({
+    pageSize: 2,
+    orgs: ['acme-1', 'acme-2', 'acme-3', 'beta-1'].map(id => ({id, name: id})),
+  });
+  const c = client(platform);
+  const first = await c.orgs.find({orgId: 'root', idStartsWith: 'acme'});
+  expect(first.items.map(o => o.id)).toEqual(['acme-1', 'acme-2']);
+  expect(first.next).toBeDefined();
+  const ids: string[] = [];
+  for await (const org of c.orgs.iterate({
+    orgId: 'root',
+    idStartsWith: 'acme',
+  })) {
+    ids.push(org.id);
+  }
+  expect(ids).toEqual(['acme-1', 'acme-2', 'acme-3']);
+});
+
+test('Apps', async () => {
+  const c = client(new FakeXcorPlatform());
+  expect(await c.apps.exists('portal')).toBe(false);
+  await c.apps.create({id: 'portal', name: 'Portal', author: 'Acme'});
+  expect(await c.apps.exists('portal')).toBe(true);
+  await c.apps.update({id: 'portal', name: 'Portal 2', author: 'Acme'});
+  const app = await c.apps.get('portal');
+  expect(app.name).toBe('Portal 2');
+  expect((await c.apps.find({})).items).toHaveLength(1);
+  await c.apps.delete('portal');
+  await expect(c.apps.get('portal')).rejects.toThrow(NotFoundError);
+});
+
+test('Org members', async () => {
+  const member = (userId: string) => ({
+    orgId: 'acme',
+    userId,
+    email: `${userId}@example.com`,
+    name: userId,
+    roles: ['member'],
+  });
+  const c = client(
+    new FakeXcorPlatform({
+      pageSize: 2,
+      orgs: [{id: 'acme', name: 'Acme'}],
+      members: ['user-1', 'user-2', 'user-3'].map(member),
+    })
+  );
+  const first = await c.members.list('acme');
+  expect(first.items.map(m => m.userId)).toEqual(['user-1', 'user-2']);
+  expect(
+    (await c.members.iterate('acme').toArray()).map(m => m.userId)
+  ).toEqual(['user-1', 'user-2', 'user-3']);
+  await c.members.updateRoles('acme', 'user-2', ['admin', 'member']);
+  expect((await c.members.get('acme', 'user-2')).roles).toEqual([
+    'admin',
+    'member',
+  ]);
+  await c.members.remove('acme', 'user-2');
+  await expect(c.members.get('acme', 'user-2')).rejects.toThrow(NotFoundError);
+  await expect(c.members.remove('acme', 'user-2')).rejects.toThrow(
+    NotFoundError
+  );
+  await expect(c.members.list('missing')).rejects.toThrow(NotFoundError);
+});
+
+test('Invites and userinfo', async () => {
+  const platform = new FakeXcorPlatform({orgs: [{id: 'acme', name: 'Acme'}]});
+  const c = client(platform);
+  await expect(
+    c.invites.send({email: 'a@example.com', orgId: 'missing'})
+  ).rejects.toThrow(NotFoundError);
+  const invite = await c.invites.send({email: 'a@example.com', orgId: 'acme'});
+  expect(invite).toMatchObject({
+    email: 'a@example.com',
+    orgId: 'acme',
+    roles: [],
+    status: 'pending',
+  });
+  expect(platform.invites.get(invite.id)).toEqual(invite);
+  expect((await c.users.me()).id).toBe(platform.user.id);
+});
+
+test('Invite lifecycle', async () => {
+  const platform = new FakeXcorPlatform({
+    orgs: [{id: 'acme', name: 'Acme'}],
+    invites: [
+      {
+        id: 'old',
+        orgId: 'acme',
+        email: 'old@example.com',
+        roles: [],
+        status: 'pending',
+        createdAt: 0,
+        expiresAt: 1,
+      },
+    ],
+  });
+  const c = client(platform);
+  const invite = await c.invites.send({
+    email: platform.user.email,
+    orgId: 'acme',
+    roles: ['admin'],
+  });
+  const other = await c.invites.send({email: 'b@example.com', orgId: 'acme'});
+  expect(
+    (await c.invites.iterate({orgId: 'acme'}).toArray()).map(i => i.status)
+  ).toEqual(['expired', 'pending', 'pending']);
+  await expect(c.invites.resend('old')).rejects.toThrow(ConflictError);
+  const resent = await c.invites.resend(invite.id);
+  expect(resent.expiresAt).toBeGreaterThanOrEqual(invite.expiresAt);
+  await c.invites.revoke(other.id);
+  await expect(c.invites.accept(other.id)).rejects.toThrow(ConflictError);
+  expect(await c.invites.accept(invite.id)).toMatchObject({
+    orgId: 'acme',
+    userId: platform.user.id,
+    roles: ['admin'],
+  });
+  expect((await c.members.get('acme', platform.user.id)).roles).toEqual([
+    'admin',
+  ]);
+  expect((await c.users.me()).orgs).toEqual([
+    {id: 'acme', name: 'Acme', roles: ['admin']},
+  ]);
+  expect(
+    (await c.invites.list({orgId: 'acme', status: 'accepted'})).items
+  ).toHaveLength(1);
+});
+
+test('Fake rejects invalid requests like the platform', async () => {
+  const platform = new FakeXcorPlatform({accessToken: 'secret'});
+  const transport = platform.transport();
+  const unauthenticated = new XcorPlatformClient({transport});
+  await expect(unauthenticated.users.me()).rejects.toThrow(UnauthorizedError);
+
+  const c = new XcorPlatformClient({
+    transport,
+    tokenProvider: new StaticTokenProvider('secret'),
+  });
+  expect((await c.users.me()).id).toBe(platform.user.id);
+  const raw = await transport.request({
+    method: 'post',
+    url: 'https://api.example.com/orgs',
+    headers: {
+      'content-type': MediaType.CREATE_ORG_REQUEST,
+      authorization: 'Bearer secret',
+    },
+    body: {id: 'INVALID ID', name: 'Acme'},
+  });
+  expect(raw.status).toBe(400);
+  expect(raw.headers['content-type']).toBe(MediaType.ERROR_RESPONSE);
+  const wrongType = await transport.request({
+    method: 'post',
+    url: 'https://api.example.com/orgs',
+    headers: {
+      'content-type': 'application/json',
+      authorization: 'Bearer secret',
+    },
+    body: {id: 'acme', name: 'Acme'},
+  });
+  expect(wrongType.status).toBe(415);
+  expect(transport.requests.at(-1)?.body).toEqual({id: 'acme', name: 'Acme'});
+});
+
+test('MockTransport surfaces handler responses as typed errors', async () => {
+  const transport = new MockTransport(() => ({
+    status: 422,
+    headers: {'Content-Type': MediaType.ERROR_RESPONSE},
+    data: {message: 'Nope'},
+  }));
+  const c = new XcorPlatformClient({transport});
+  const response = await c.send(
+    new CreateOrgCommand({id: 'acme', name: 'Acme'})
+  );
+  expect(response.httpStatus).toBe(422);
+  expect(response.error).toBeInstanceOf(ValidationError);
+  expect(transport.requests[0].headers['content-type']).toBe(
+    MediaType.CREATE_ORG_REQUEST
+  );
+});
@@ -0,0 +1,734 @@
+import {
+  CreateAppRequest,
+  CreateOrgRequest,
+  FindAppRequest,
+  FindOrgRequest,
+  IErrorResponse,
+  IGetAppResponse,
+  IGetOrgResponse,
+  IInvite,
+  InviteRequest,
+  IOrgMember,
+  IUserInfoResponse,
+  ListInvitesRequest,
+  MediaType,
+  UpdateAppRequest,
+  UpdateOrgMemberRolesRequest,
+  UpdateOrgRequest,
+  z,
+} from '../types/index.js';
+import {HttpRequest, HttpResponse} from '../transport.js';
+import {MockTransport} from './mock-transport.js';
+
+/**
+ * Configuration for the FakeXcorPlatform class
+ */
+export interface FakeXcorPlatformConfig {
+  /**
+   * Orgs that exist when the fake is created.
+   */
+  readonly orgs?: IGetOrgResponse[];
+  /**
+   * Apps that exist when the fake is created.
+   */
+  readonly apps?: IGetAppResponse[];
+  /**
+   * Members of orgs that exist when the fake is created.
+   */
+  readonly members?: IOrgMember[];
+  /**
+   * Invites that exist when the fake is created. Pending invites past their expiry are reported as expired.
+   */
+  readonly invites?: IInvite[];
+  /**
+   * The user returned from /userinfo.
+   */
+  readonly user?: IUserInfoResponse;
+  /**
+   * The maximum number of items returned in each page of find results. Default is 10.
+   */
+  readonly pageSize?: number;
+  /**
+   * If set, requests must send this bearer token or a 401 is returned.
+   */
+  readonly accessToken?: string;
+}
+
+/**
+ * How long invites created by the fake are valid for.
+ */
+const INVITE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+const DEFAULT_USER: IUserInfoResponse = {
+  id: 'user-1',
+  givenName: 'Test',
+  familyName: 'User',
+  name: 'Test User',
+  active: true,
+  email: 'test.user@example.com',
+  orgs: [],
+};
+
+interface Route {
+  readonly method: string;
+  readonly pattern: RegExp;
+  readonly handle: (
+    request: HttpRequest,
+    params: string[],
+    query: Record<string, string>
+  ) => HttpResponse;
+}
+
+function parseUrl(url: string): [string, Record<string, string>] {
+  const withoutOrigin = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '');
+  const [path, search] = withoutOrigin.split('?', 2);
+  const query: Record<string, string> = {};
+  for (const pair of (search ?? '').split('&')) {
+    if (pair === '') {
+      continue;
+    }
+    const [key, value] = pair.split('=', 2);
+    query[decodeURIComponent(key)] = decodeURIComponent(
+      (value ?? '').replace(/\+/g, ' ')
+    );
+  }
+  return [path, query];
+}
+
+function error(status: number, message: string): HttpResponse {
+  const data: IErrorResponse = {message};
+  return {
+    status,
+    headers: {'content-type': MediaType.ERROR_RESPONSE},
+    data,
+  };
+}
+
+/**
+ * A strong ETag derived from the content of a resource, so it changes whenever the resource does.
+ */
+function etagOf(resource: unknown): string {
+  const text = JSON.stringify(resource);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return `"${(hash >>> 0).toString(16)}"`;
+}
+
+function ok(
+  status: number,
+  contentType?: string,
+  data?: unknown
+): HttpResponse {
+  const headers: Record<string, string> = {};
+  if (contentType !== undefined) {
+    headers['content-type'] = contentType;
+  }
+  return {status, headers, data};
+}
+
+/**
+ * An in-memory fake of the Xcor Platform API. It implements the org, app, member, invite and userinfo commands with the
+ * same schemas, media types and status codes as the real API so code using XcorPlatformClient can be tested
+ * offline.
+ *
+ * @example
+ * const platform = new FakeXcorPlatform();
+ * const client = new XcorPlatformClient({transport: platform.transport()});
+ * await client.orgs.create({id: 'acme', name: 'Acme'});
+ */
+export class FakeXcorPlatform {
+  readonly orgs = new Map<string, IGetOrgResponse>();
+  readonly apps = new Map<string, IGetAppResponse>();
+  /**
+   * The members of each org keyed by org ID and then user ID.
+   */
+  readonly members = new Map<string, Map<string, IOrgMember>>();
+  /**
+   * Every invite keyed by invite ID.
+   */
+  readonly invites = new Map<string, IInvite>();
+  user: IUserInfoResponse;
+  protected pageSize: number;
+  protected inviteCount = 0;
+  protected accessToken?: string;
+  protected routes: Route[];
+
+  /**
+   * Create a new FakeXcorPlatform instance
+   *
+   * @param config Configuration for the fake
+   */
+  constructor(config?: FakeXcorPlatformConfig) {
+    for (const org of config?.orgs ?? []) {
+      this.orgs.set(org.id, org);
+    }
+    for (const app of config?.apps ?? []) {
+      this.apps.set(app.id, app);
+    }
+    for (const member of config?.members ?? []) {
+      this.membersOf(member.orgId).set(member.userId, member);
+    }
+    for (const invite of config?.invites ?? []) {
+      this.invites.set(invite.id, invite);
+    }
+    this.user = config?.user ?? DEFAULT_USER;
+    this.pageSize = config?.pageSize ?? 10;
+    this.accessToken = config?.accessToken;
+    this.routes = [
+      {method: 'post', pattern: /^\/orgs$/, handle: r => this.createOrg(r)},
+      {
+        method: 'get',
+        pattern: /^\/orgs$/,
+        handle: (r, p, q) => this.findOrgs(q),
+      },
+      {
+        method: 'get',
+        pattern: /^\/orgs\/([^/]+)$/,
+        handle: (r, p) => this.getOrg(r, p[0]),
+      },
+      {
+        method: 'put',
+        pattern: /^\/orgs\/([^/]+)$/,
+        handle: (r, p) => this.updateOrg(r, p[0]),
+      },
+      {
+        method: 'delete',
+        pattern: /^\/orgs\/([^/]+)$/,
+        handle: (r, p) => this.deleteOrg(r, p[0]),
+      },
+      {
+        method: 'get',
+        pattern: /^\/orgs\/([^/]+)\/members$/,
+        handle: (r, p, q) => this.listMembers(p[0], q),
+      },
+      {
+        method: 'get',
+        pattern: /^\/orgs\/([^/]+)\/members\/([^/]+)$/,
+        handle: (r, p) => this.getMember(p[0], p[1]),
+      },
+      {
+        method: 'delete',
+        pattern: /^\/orgs\/([^/]+)\/members\/([^/]+)$/,
+        handle: (r, p) => this.removeMember(p[0], p[1]),
+      },
+      {
+        method: 'put',
+        pattern: /^\/orgs\/([^/]+)\/members\/([^/]+)\/roles$/,
+        handle: (r, p) => this.updateMemberRoles(r, p[0], p[1]),
+      },
+      {method: 'post', pattern: /^\/apps$/, handle: r => this.createApp(r)},
+      {
+        method: 'get',
+        pattern: /^\/apps$/,
+        handle: (r, p, q) => this.findApps(q),
+      },
+      {
+        method: 'get',
+        pattern: /^\/apps\/([^/]+)$/,
+        handle: (r, p) => this.getApp(r, p[0]),
+      },
+      {
+        method: 'head',
+        pattern: /^\/apps\/([^/]+)$/,
+        handle: (r, p) => ok(this.apps.has(p[0]) ? 200 : 404),
+      },
+      {
+        method: 'put',
+        pattern: /^\/apps\/([^/]+)$/,
+        handle: (r, p) => this.updateApp(r, p[0]),
+      },
+      {
+        method: 'delete',
+        pattern: /^\/apps\/([^/]+)$/,
+        handle: (r, p) => this.deleteApp(r, p[0]),
+      },
+      {method: 'post', pattern: /^\/invite$/, handle: r => this.invite(r)},
+      {
+        method: 'get',
+        pattern: /^\/orgs\/([^/]+)\/invites$/,
+        handle: (r, p, q) => this.listInvites(p[0], q),
+      },
+      {
+        method: 'post',
+        pattern: /^\/invites\/([^/]+)\/resend$/,
+        handle: (r, p) => this.resendInvite(p[0]),
+      },
+      {
+        method: 'post',
+        pattern: /^\/invites\/([^/]+)\/revoke$/,
+        handle: (r, p) => this.revokeInvite(p[0]),
+      },
+      {
+        method: 'post',
+        pattern: /^\/invites\/([^/]+)\/accept$/,
+        handle: (r, p) => this.acceptInvite(p[0]),
+      },
+      {
+        method: 'get',
+        pattern: /^\/userinfo$/,
+        handle: () => ok(200, MediaType.USERINFO_RESPONSE, this.user),
+      },
+    ];
+  }
+
+  /**
+   * Create a transport that sends requests to this fake.
+   */
+  transport(): MockTransport {
+    return new MockTransport(request => this.handle(request));
+  }
+
+  /**
+   * Handle a single request.
+   *
+   * @param request The request to handle
+   */
+  handle(request: HttpRequest): HttpResponse {
+    if (
+      this.accessToken !== undefined &&
+      request.headers.authorization !== `Bearer ${this.accessToken}`
+    ) {
+      return error(401, 'Unauthorized');
+    }
+    const [path, query] = parseUrl(request.url);
+    const method = request.method.toLowerCase();
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(path);
+      if (match === null) {
+        continue;
+      }
+      pathMatched = true;
+      if (route.method === method) {
+        return route.handle(
+          request,
+          match.slice(1).map(p => decodeURIComponent(p)),
+          query
+        );
+      }
+    }
+    return pathMatched
+      ? error(405, 'Method not allowed')
+      : error(404, 'Not found');
+  }
+
+  protected parseBody<T>(
+    request: HttpRequest,
+    mediaType: string,
+    schema: z.ZodType<T>
+  ): T | HttpResponse {
+    if (request.headers['content-type'] !== mediaType) {
+      return error(415, `Expected content type ${mediaType}`);
+    }
+    return this.parse(request.body, schema);
+  }
+
+  protected parse<T>(data: unknown, schema: z.ZodType<T>): T | HttpResponse {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      return error(
+        400,
+        result.error.issues
+          .map(issue => `${issue.path.join('.')} ${issue.message}`.trim())
+          .join(', ')
+      );
+    }
+    return result.data;
+  }
+
+  protected page<T>(items: T[], next?: string): {items: T[]; next?: string} {
+    const offset = next ? parseInt(next, 10) || 0 : 0;
+    const end = offset + this.pageSize;
+    return {
+      items: items.slice(offset, end),
+      next: end < items.length ? String(end) : undefined,
+    };
+  }
+
+  protected createOrg(request: HttpRequest): HttpResponse {
+    const data = this.parseBody(
+      request,
+      MediaType.CREATE_ORG_REQUEST,
+      CreateOrgRequest
+    );
+    if (isResponse(data)) {
+      return data;
+    }
+    if (this.orgs.has(data.id)) {
+      return error(409, `Org ${data.id} already exists`);
+    }
+    this.orgs.set(data.id, {id: data.id, name: data.name});
+    return ok(201);
+  }
+
+  protected findOrgs(query: Record<string, string>): HttpResponse {
+    const data = this.parse(query, FindOrgRequest);
+    if (isResponse(data)) {
+      return data;
+    }
+    const items = [...this.orgs.values()]
+      .filter(org => !data.idStartsWith || org.id.startsWith(data.idStartsWith))
+      .filter(
+        org => !data.nameStartsWith || org.name.startsWith(data.nameStartsWith)
+      )
+      .sort((a, b) => a.id.localeCompare(b.id));
+    return ok(200, MediaType.FIND_ORG_RESPONSE, this.page(items, data.next));
+  }
+
+  /**
+   * Responds with the resource and its ETag, or 304 if the request has the current ETag in If-None-Match.
+   */
+  protected conditionalGet(
+    request: HttpRequest,
+    contentType: string,
+    resource: unknown
+  ): HttpResponse {
+    const etag = etagOf(resource);
+    if (request.headers['if-none-match'] === etag) {
+      return {status: 304, headers: {etag}, data: undefined};
+    }
+    const response = ok(200, contentType, resource);
+    return {...response, headers: {...response.headers, etag}};
+  }
+
+  /**
+   * Responds with 412 if the request has an If-Match header that is not the current ETag of the resource.
+   */
+  protected checkIfMatch(
+    request: HttpRequest,
+    resource: unknown
+  ): HttpResponse | undefined {
+    const ifMatch = request.headers['if-match'];
+    if (
+      ifMatch !== undefined &&
+      ifMatch !== '*' &&
+      ifMatch !== etagOf(resource)
+    ) {
+      return error(412, 'Resource has changed');
+    }
+    return undefined;
+  }
+
+  protected getOrg(request: HttpRequest, id: string): HttpResponse {
+    const org = this.orgs.get(id);
+    if (org === undefined) {
+      return error(404, `Org ${id} not found`);
+    }
+    return this.conditionalGet(request, MediaType.GET_ORG_RESPONSE, org);
+  }
+
+  protected updateOrg(request: HttpRequest, id: string): HttpResponse {
+    const data = this.parseBody(
+      request,
+      MediaType.UPDATE_ORG_REQUEST,
+      UpdateOrgRequest
+    );
+    if (isResponse(data)) {
+      return data;
+    }
+    if (data.id !== id) {
+      return error(400, 'id does not match the path');
+    }
+    const existing = this.orgs.get(id);
+    if (existing === undefined) {
+      return error(404, `Org ${id} not found`);
+    }
+    const failed = this.checkIfMatch(request, existing);
+    if (failed) {
+      return failed;
+    }
+    this.orgs.set(id, {id, name: data.name});
+    return ok(204);
+  }
+
+  protected deleteOrg(request: HttpRequest, id: string): HttpResponse {
+    const existing = this.orgs.get(id);
+    if (existing === undefined) {
+      return error(404, `Org ${id} not found`);
+    }
+    const failed = this.checkIfMatch(request, existing);
+    if (failed) {
+      return failed;
+    }
+    this.orgs.delete(id);
+    this.members.delete(id);
+    return ok(204);
+  }
+
+  protected membersOf(orgId: string): Map<string, IOrgMember> {
+    let members = this.members.get(orgId);
+    if (members === undefined) {
+      members = new Map();
+      this.members.set(orgId, members);
+    }
+    return members;
+  }
+
+  protected listMembers(
+    orgId: string,
+    query: Record<string, string>
+  ): HttpResponse {
+    if (!this.orgs.has(orgId)) {
+      return error(404, `Org ${orgId} not found`);
+    }
+    const items = [...this.membersOf(orgId).values()].sort((a, b) =>
+      a.userId.localeCompare(b.userId)
+    );
+    return ok(
+      200,
+      MediaType.LIST_ORG_MEMBERS_RESPONSE,
+      this.page(items, query.next)
+    );
+  }
+
+  protected getMember(orgId: string, userId: string): HttpResponse {
+    const member = this.members.get(orgId)?.get(userId);
+    if (member === undefined) {
+      return error(404, `Member ${userId} of org ${orgId} not found`);
+    }
+    return ok(200, MediaType.GET_ORG_MEMBER_RESPONSE, member);
+  }
+
+  protected updateMemberRoles(
+    request: HttpRequest,
+    orgId: string,
+    userId: string
+  ): HttpResponse {
+    const data = this.parseBody(
+      request,
+      MediaType.UPDATE_ORG_MEMBER_ROLES_REQUEST,
+      UpdateOrgMemberRolesRequest.pick({roles: true})
+    );
+    if (isResponse(data)) {
+      return data;
+    }
+    const member = this.members.get(orgId)?.get(userId);
+    if (member === undefined) {
+      return error(404, `Member ${userId} of org ${orgId} not found`);
+    }
+    this.membersOf(orgId).set(userId, {...member, roles: data.roles});
+    return ok(204);
+  }
+
+  protected removeMember(orgId: string, userId: string): HttpResponse {
+    if (!this.members.get(orgId)?.delete(userId)) {
+      return error(404, `Member ${userId} of org ${orgId} not found`);
+    }
+    return ok(204);
+  }
+
+  protected createApp(request: HttpRequest): HttpResponse {
+    const data = this.parseBody(
+      request,
+      MediaType.CREATE_APP_REQUEST,
+      CreateAppRequest
+    );
+    if (isResponse(data)) {
+      return data;
+    }
+    if (this.apps.has(data.id)) {
+      return error(409, `App ${data.id} already exists`);
+    }
+    const now = Date.now();
+    this.apps.set(data.id, {...data, createdAt: now, updatedAt: now});
+    return ok(201);
+  }
+
+  protected findApps(query: Record<string, string>): HttpResponse {
+    const data = this.parse(query, FindAppRequest);
+    if (isResponse(data)) {
+      return data;
+    }
+    const items = [...this.apps.values()]
+      .filter(app => !data.idStartsWith || app.id.startsWith(data.idStartsWith))
+      .filter(
+        app => !data.nameStartsWith || app.name.startsWith(data.nameStartsWith)
+      )
+      .sort((a, b) => a.id.localeCompare(b.id));
+    return ok(200, MediaType.FIND_APP_RESPONSE, this.page(items, data.next));
+  }
+
+  protected getApp(request: HttpRequest, id: string): HttpResponse {
+    const app = this.apps.get(id);
+    if (app === undefined) {
+      return error(404, `App ${id} not found`);
+    }
+    return this.conditionalGet(request, MediaType.GET_APP_RESPONSE, app);
+  }
+
+  protected updateApp(request: HttpRequest, id: string): HttpResponse {
+    const data = this.parseBody(
+      request,
+      MediaType.UPDATE_APP_REQUEST,
+      UpdateAppRequest
+    );
+    if (isResponse(data)) {
+      return data;
+    }
+    if (data.id !== id) {
+      return error(400, 'id does not match the path');
+    }
+    const existing = this.apps.get(id);
+    if (existing === undefined) {
+      return error(404, `App ${id} not found`);
+    }
+    const failed = this.checkIfMatch(request, existing);
+    if (failed) {
+      return failed;
+    }
+    this.apps.set(id, {...existing, ...data, updatedAt: Date.now()});
+    return ok(204);
+  }
+
+  protected deleteApp(request: HttpRequest, id: string): HttpResponse {
+    const existing = this.apps.get(id);
+    if (existing === undefined) {
+      return error(404, `App ${id} not found`);
+    }
+    const failed = this.checkIfMatch(request, existing);
+    if (failed) {
+      return failed;
+    }
+    this.apps.delete(id);
+    return ok(204);
+  }
+
+  protected invite(request: HttpRequest): HttpResponse {
+    const data = this.parseBody(
+      request,
+      MediaType.INVITE_REQUEST,
+      InviteRequest
+    );
+    if (isResponse(data)) {
+      return data;
+    }
+    if (!this.orgs.has(data.orgId)) {
+      return error(404, `Org ${data.orgId} not found`);
+    }
+    const now = Date.now();
+    const invite: IInvite = {
+      id: `invite-${++this.inviteCount}`,
+      orgId: data.orgId,
+      email: data.email,
+      roles: data.roles ?? [],
+      status: 'pending',
+      createdAt: now,
+      expiresAt: now + INVITE_TTL,
+    };
+    this.invites.set(invite.id, invite);
+    return ok(201, MediaType.INVITE_RESPONSE, invite);
+  }
+
+  /**
+   * Returns the invite with its status updated to expired if it is pending and past its expiry.
+   */
+  protected currentInvite(invite: IInvite): IInvite {
+    if (invite.status === 'pending' && invite.expiresAt <= Date.now()) {
+      invite = {...invite, status: 'expired'};
+      this.invites.set(invite.id, invite);
+    }
+    return invite;
+  }
+
+  protected pendingInvite(id: string): IInvite | HttpResponse {
+    const invite = this.invites.get(id);
+    if (invite === undefined) {
+      return error(404, `Invite ${id} not found`);
+    }
+    const current = this.currentInvite(invite);
+    if (current.status !== 'pending') {
+      return error(409, `Invite ${id} is ${current.status}`);
+    }
+    return current;
+  }
+
+  protected listInvites(
+    orgId: string,
+    query: Record<string, string>
+  ): HttpResponse {
+    const data = this.parse(
+      query,
+      ListInvitesRequest.pick({status: true, next: true})
+    );
+    if (isResponse(data)) {
+      return data;
+    }
+    if (!this.orgs.has(orgId)) {
+      return error(404, `Org ${orgId} not found`);
+    }
+    const items = [...this.invites.values()]
+      .filter(invite => invite.orgId === orgId)
+      .map(invite => this.currentInvite(invite))
+      .filter(invite => !data.status || invite.status === data.status)
+      .sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+    return ok(
+      200,
+      MediaType.LIST_INVITES_RESPONSE,
+      this.page(items, data.next)
+    );
+  }
+
+  protected resendInvite(id: string): HttpResponse {
+    const invite = this.pendingInvite(id);
+    if (isResponse(invite)) {
+      return invite;
+    }
+    const resent = {...invite, expiresAt: Date.now() + INVITE_TTL};
+    this.invites.set(id, resent);
+    return ok(200, MediaType.INVITE_RESPONSE, resent);
+  }
+
+  protected revokeInvite(id: string): HttpResponse {
+    const invite = this.pendingInvite(id);
+    if (isResponse(invite)) {
+      return invite;
+    }
+    this.invites.set(id, {...invite, status: 'revoked'});
+    return ok(204);
+  }
+
+  /**
+   * Accepts the invite as the user returned from /userinfo, adding them to the org with the roles of the invite.
+   */
+  protected acceptInvite(id: string): HttpResponse {
+    const invite = this.pendingInvite(id);
+    if (isResponse(invite)) {
+      return invite;
+    }
+    if (invite.email.toLowerCase() !== this.user.email.toLowerCase()) {
+      return error(403, `Invite ${id} was sent to another user`);
+    }
+    const org = this.orgs.get(invite.orgId);
+    if (org === undefined) {
+      return error(404, `Org ${invite.orgId} not found`);
+    }
+    const member: IOrgMember = {
+      orgId: org.id,
+      userId: this.user.id,
+      email: this.user.email,
+      name: this.user.name,
+      roles: invite.roles,
+    };
+    this.membersOf(org.id).set(member.userId, member);
+    this.user = {
+      ...this.user,
+      orgs: [
+        ...this.user.orgs.filter(o => o.id !== org.id),
+        {id: org.id, name: org.name, roles: invite.roles},
+      ],
+    };
+    this.invites.set(id, {...invite, status: 'accepted'});
+    return ok(200, MediaType.GET_ORG_MEMBER_RESPONSE, member);
+  }
+}
+
+function isResponse(value: unknown): value is HttpResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'status' in value &&
+    'headers' in value
+  );
+}
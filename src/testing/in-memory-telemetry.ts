@@ -0,0 +1,131 @@
+import {AsyncLocalStorage} from 'node:async_hooks';
+import {
+  SpanStatusCode,
+  TelemetryAttributes,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetrySpanContext,
+  TelemetrySpanOptions,
+  TelemetryTracer,
+} from '../telemetry.js';
+
+function randomHex(length: number): string {
+  let result = '';
+  while (result.length < length) {
+    result += Math.floor(Math.random() * 16).toString(16);
+  }
+  return result;
+}
+
+/**
+ * A span recorded by an InMemoryTracer.
+ */
+export class InMemorySpan implements TelemetrySpan {
+  readonly attributes: TelemetryAttributes;
+  readonly exceptions: Error[] = [];
+  readonly traceId: string;
+  readonly spanId = randomHex(16);
+  status: {code: number; message?: string} = {code: SpanStatusCode.UNSET};
+  ended = false;
+
+  constructor(
+    protected readonly tracer: InMemoryTracer,
+    readonly name: string,
+    readonly kind: number | undefined,
+    attributes: TelemetryAttributes | undefined,
+    readonly parentSpanId: string | undefined,
+    traceId: string | undefined
+  ) {
+    this.attributes = {...attributes};
+    this.traceId = traceId ?? randomHex(32);
+  }
+
+  setAttribute(key: string, value: string | number | boolean): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setStatus(status: {code: number; message?: string}): this {
+    this.status = status;
+    return this;
+  }
+
+  recordException(exception: Error): void {
+    this.exceptions.push(exception);
+  }
+
+  spanContext(): TelemetrySpanContext {
+    return {traceId: this.traceId, spanId: this.spanId, traceFlags: 1};
+  }
+
+  end(): void {
+    if (!this.ended) {
+      this.ended = true;
+      this.tracer.spans.push(this);
+    }
+  }
+}
+
+/**
+ * A TelemetryTracer that keeps ended spans in memory for assertions in tests. Spans started while another span
+ * is active, including across awaits, are recorded as its children. Only available in Node.js.
+ */
+export class InMemoryTracer implements TelemetryTracer {
+  /**
+   * Every ended span in the order they ended.
+   */
+  readonly spans: InMemorySpan[] = [];
+  protected active = new AsyncLocalStorage<InMemorySpan>();
+
+  startActiveSpan<F extends (span: TelemetrySpan) => unknown>(
+    name: string,
+    options: TelemetrySpanOptions,
+    fn: F
+  ): ReturnType<F> {
+    const parent = this.active.getStore();
+    const span = new InMemorySpan(
+      this,
+      name,
+      options.kind,
+      options.attributes,
+      parent?.spanId,
+      parent?.traceId
+    );
+    return this.active.run(span, () => fn(span)) as ReturnType<F>;
+  }
+}
+
+/**
+ * A value recorded by an InMemoryMeter.
+ */
+export interface InMemoryMeasurement {
+  readonly name: string;
+  readonly value: number;
+  readonly attributes?: TelemetryAttributes;
+}
+
+/**
+ * A TelemetryMeter that keeps every recorded value in memory for assertions in tests.
+ */
+export class InMemoryMeter implements TelemetryMeter {
+  /**
+   * Every value recorded by any histogram or counter in the order they were recorded.
+   */
+  readonly measurements: InMemoryMeasurement[] = [];
+
+  createHistogram(name: string): TelemetryHistogram {
+    return {
+      record: (value, attributes) =>
+        this.measurements.push({name, value, attributes}),
+    };
+  }
+
+  createCounter(name: string): TelemetryCounter {
+    return {
+      add: (value, attributes) =>
+        this.measurements.push({name, value, attributes}),
+    };
+  }
+}
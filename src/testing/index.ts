@@ -0,0 +1,3 @@
+export * from './fake-platform.js';
+export * from './in-memory-telemetry.js';
+export * from './mock-transport.js';
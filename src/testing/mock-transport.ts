@@ -0,0 +1,63 @@
+import {
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  normalizeHeaders,
+  TransportError,
+} from '../transport.js';
+
+/**
+ * Handles a request sent to a MockTransport.
+ */
+export type MockHandler = (
+  request: HttpRequest
+) => HttpResponse | Promise<HttpResponse>;
+
+function roundTrip(value: unknown): unknown {
+  if (value === undefined || typeof value === 'string') {
+    return value;
+  }
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * An HttpTransport that passes requests to a handler instead of the network. Request and response bodies are
+ * copied through JSON so the handler and the caller never share objects, just as they would over HTTP.
+ */
+export class MockTransport implements HttpTransport {
+  /**
+   * Every request received in the order they were received.
+   */
+  readonly requests: HttpRequest[] = [];
+  protected handler: MockHandler;
+
+  /**
+   * Create a new MockTransport instance
+   *
+   * @param handler Produces the response for each request
+   */
+  constructor(handler: MockHandler) {
+    this.handler = handler;
+  }
+
+  async request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>> {
+    if (request.signal?.aborted) {
+      throw new TransportError('Request cancelled', 'ERR_CANCELED');
+    }
+    const received: HttpRequest = {
+      ...request,
+      headers: normalizeHeaders(request.headers),
+      body: roundTrip(request.body),
+    };
+    this.requests.push(received);
+    const response = await this.handler(received);
+    if (request.signal?.aborted) {
+      throw new TransportError('Request cancelled', 'ERR_CANCELED');
+    }
+    return {
+      status: response.status,
+      headers: normalizeHeaders(response.headers),
+      data: roundTrip(response.data) as T,
+    };
+  }
+}
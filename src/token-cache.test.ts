@@ -0,0 +1,61 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {FileTokenCache, MemoryTokenCache} from './token-cache.js';
+import {ClientCredentials} from './client-credentials.js';
+
+const key = {
+  clientId: 'client',
+  scopes: ['orgs', 'apps'],
+  tokenEndpoint: 'http://127.0.0.1:1/token',
+};
+
+test('Memory token cache expires tokens', async () => {
+  const cache = new MemoryTokenCache();
+  await cache.set(key, {accessToken: 'abc', expiresAt: Date.now() + 60000});
+  expect(await cache.get({...key, scopes: ['apps', 'orgs']})).toEqual({
+    accessToken: 'abc',
+    expiresAt: expect.any(Number),
+  });
+  await cache.set(key, {accessToken: 'abc', expiresAt: Date.now() - 1});
+  expect(await cache.get(key)).toBeUndefined();
+});
+
+test('File token cache stores tokens on disk', async () => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'xcor-tokens-'));
+  try {
+    const cache = new FileTokenCache(directory);
+    expect(await cache.get(key)).toBeUndefined();
+    const token = {accessToken: 'abc', expiresAt: Date.now() + 60000};
+    await cache.set(key, token);
+    expect(await new FileTokenCache(directory).get(key)).toEqual(token);
+    await cache.delete(key);
+    expect(await cache.get(key)).toBeUndefined();
+  } finally {
+    await fs.rm(directory, {recursive: true, force: true});
+  }
+});
+
+test('Client credentials use cached tokens', async () => {
+  const cache = new MemoryTokenCache();
+  await cache.set(key, {accessToken: 'cached', expiresAt: Date.now() + 600000});
+  const credentials = new ClientCredentials({
+    ...key,
+    clientSecret: 'secret',
+    cache,
+  });
+  expect(await credentials.getAccessToken()).toEqual('cached');
+  credentials.close();
+  expect((await cache.get(key))?.accessToken).toEqual('cached');
+
+  // Only a rejected token is removed from the cache
+  const rejected = new ClientCredentials({
+    ...key,
+    clientSecret: 'secret',
+    cache,
+  });
+  expect(await rejected.getAccessToken()).toEqual('cached');
+  rejected.invalidate();
+  rejected.close();
+  expect(await cache.get(key)).toBeUndefined();
+});
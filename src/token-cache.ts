@@ -0,0 +1,138 @@
+/**
+ * Identifies the credentials a cached token was issued for.
+ */
+export interface TokenCacheKey {
+  readonly clientId: string;
+  readonly scopes: string[];
+  readonly tokenEndpoint: string;
+}
+
+/**
+ * An access token stored in a TokenCache.
+ */
+export interface CachedToken {
+  readonly accessToken: string;
+  /**
+   * The time the token expires in milliseconds since the epoch as reported by the token endpoint.
+   */
+  readonly expiresAt: number;
+}
+
+/**
+ * Stores access tokens so they can be shared between processes such as Lambda cold starts and workers.
+ *
+ * Implementations must follow this contract:
+ * - get resolves to undefined when there is no entry or the entry has expired. Returning an expired entry is
+ *   tolerated as callers check expiresAt, but wastes a round trip.
+ * - set replaces any existing entry for the key. Implementations backed by a store with expiry such as Redis
+ *   or DynamoDB should use expiresAt as the entry TTL.
+ * - delete removes the entry for the key and resolves even if there was none.
+ * - Keys should be derived with tokenCacheKeyString so all implementations agree on what is shared.
+ * - Entries contain bearer tokens and must be stored with the same care as any other credential.
+ * - Errors thrown by any method are ignored by callers, which fall back to requesting a new token.
+ */
+export interface TokenCache {
+  get(key: TokenCacheKey): Promise<CachedToken | undefined>;
+  set(key: TokenCacheKey, token: CachedToken): Promise<void>;
+  delete(key: TokenCacheKey): Promise<void>;
+}
+
+/**
+ * Converts a TokenCacheKey into a string. Scopes are sorted so their order does not matter.
+ *
+ * @param key The key to convert
+ */
+export function tokenCacheKeyString(key: TokenCacheKey): string {
+  return [key.tokenEndpoint, key.clientId, [...key.scopes].sort().join(' ')]
+    .map(part => encodeURIComponent(part))
+    .join('|');
+}
+
+/**
+ * A TokenCache that stores tokens in memory. Useful for sharing tokens between clients in the same process.
+ */
+export class MemoryTokenCache implements TokenCache {
+  protected tokens = new Map<string, CachedToken>();
+
+  async get(key: TokenCacheKey): Promise<CachedToken | undefined> {
+    const k = tokenCacheKeyString(key);
+    const token = this.tokens.get(k);
+    if (token !== undefined && token.expiresAt <= Date.now()) {
+      this.tokens.delete(k);
+      return undefined;
+    }
+    return token;
+  }
+
+  async set(key: TokenCacheKey, token: CachedToken): Promise<void> {
+    this.tokens.set(tokenCacheKeyString(key), token);
+  }
+
+  async delete(key: TokenCacheKey): Promise<void> {
+    this.tokens.delete(tokenCacheKeyString(key));
+  }
+}
+
+/**
+ * A TokenCache that stores each token in its own file in a directory. Useful for sharing tokens between worker
+ * processes on the same host or across warm invocations using /tmp. Only available in Node.js.
+ */
+export class FileTokenCache implements TokenCache {
+  protected directory: string;
+
+  /**
+   * Create a new FileTokenCache instance
+   *
+   * @param directory The directory to store tokens in. It is created with owner only permissions if missing.
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: TokenCacheKey): Promise<CachedToken | undefined> {
+    const fs = await import('node:fs/promises');
+    let content: string;
+    try {
+      content = await fs.readFile(await this.file(key), 'utf8');
+    } catch (err) {
+      if ((err as {code?: string}).code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+    const token = JSON.parse(content) as CachedToken;
+    if (
+      typeof token.accessToken !== 'string' ||
+      typeof token.expiresAt !== 'number' ||
+      token.expiresAt <= Date.now()
+    ) {
+      return undefined;
+    }
+    return token;
+  }
+
+  async set(key: TokenCacheKey, token: CachedToken): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.mkdir(this.directory, {recursive: true, mode: 0o700});
+    const file = await this.file(key);
+    // Write to a temporary file and rename so readers never see a partial token
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(token), {mode: 0o600});
+    await fs.rename(tmp, file);
+  }
+
+  async delete(key: TokenCacheKey): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(await this.file(key), {force: true});
+  }
+
+  protected async file(key: TokenCacheKey): Promise<string> {
+    const crypto = await import('node:crypto');
+    const path = await import('node:path');
+    const name = crypto
+      .createHash('sha256')
+      .update(tokenCacheKeyString(key))
+      .digest('hex');
+    return path.join(this.directory, `${name}.json`);
+  }
+}
@@ -0,0 +1,399 @@
+import type {AxiosInstance} from 'axios';
+import {z} from 'zod';
+import {abortable} from './cancellation.js';
+import {AuthenticationError} from './errors.js';
+import {
+  AxiosTransport,
+  HttpResponse,
+  HttpTransport,
+  TransportError,
+} from './transport.js';
+import {SpanKind, TelemetryTracer, withSpan} from './telemetry.js';
+
+/**
+ * Supplies the bearer token sent with each request to the Xcor Platform API.
+ */
+export interface TokenProvider {
+  /**
+   * Get the access token to send with a request.
+   *
+   * @param signal Cancels any request made to obtain the token
+   */
+  getAccessToken(signal?: AbortSignal): Promise<string>;
+
+  /**
+   * Discard the current access token so the next call to getAccessToken obtains a new one. Providers that
+   * implement this have a request retried once with a new token when the API responds with a 401.
+   */
+  invalidate?(): void;
+
+  /**
+   * Release any resources held by the provider such as background refresh timers.
+   */
+  close?(): void;
+}
+
+/**
+ * Encodes the given fields as an application/x-www-form-urlencoded body. Undefined fields are omitted.
+ *
+ * @param fields The fields to encode
+ */
+export function formEncode(fields: Record<string, string | undefined>): string {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) =>
+      `${encodeURIComponent(key)}=${encodeURIComponent(value!)}`.replace(
+        /%20/g,
+        '+'
+      )
+    )
+    .join('&');
+}
+
+/**
+ * The default number of milliseconds a token request may take before it fails.
+ */
+export const DEFAULT_TOKEN_REQUEST_TIMEOUT = 30000;
+
+/**
+ * A successful response from an OAuth2 token endpoint.
+ */
+export interface TokenResponse {
+  readonly access_token: string;
+  readonly expires_in: number;
+  readonly refresh_token?: string;
+  readonly token_type?: string;
+}
+
+/**
+ * The fields of a token response a token provider relies on. Numeric strings are accepted for expires_in as some
+ * token endpoints send it as a string.
+ */
+const TokenResponseSchema = z.object({
+  access_token: z.string().min(1),
+  expires_in: z.coerce.number().finite().positive(),
+  refresh_token: z.string().optional(),
+  token_type: z.string().optional(),
+});
+
+/**
+ * Converts an error response from a token endpoint into an AuthenticationError.
+ *
+ * @param response The error response from the token endpoint
+ * @param tokenEndpoint The token endpoint that was called
+ */
+export function toAuthenticationError(
+  response: HttpResponse,
+  tokenEndpoint: string
+): AuthenticationError {
+  const data = response.data as
+    | {error?: unknown; error_description?: unknown}
+    | undefined;
+  const oauthError = typeof data?.error === 'string' ? data.error : undefined;
+  const description =
+    typeof data?.error_description === 'string'
+      ? data.error_description
+      : undefined;
+  return new AuthenticationError(
+    {
+      httpStatus: response.status,
+      method: 'post',
+      path: tokenEndpoint,
+      body: description ? {message: description} : undefined,
+    },
+    oauthError
+  );
+}
+
+/**
+ * Posts a form encoded request to a token endpoint. Failures are thrown as an AuthenticationError, including a
+ * request ended by the signal, even if the transport ignores it.
+ *
+ * @param transport The transport used to make the request
+ * @param tokenEndpoint The token endpoint to call
+ * @param fields The fields of the token request
+ * @param tracer Traces the request in a span if provided
+ * @param signal Ends the request, such as AbortSignal.timeout
+ */
+export function postTokenRequest(
+  transport: HttpTransport,
+  tokenEndpoint: string,
+  fields: Record<string, string | undefined>,
+  tracer?: TelemetryTracer,
+  signal?: AbortSignal
+): Promise<TokenResponse> {
+  return withSpan(
+    tracer,
+    'token',
+    {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        'http.request.method': 'POST',
+        'url.full': tokenEndpoint,
+        'oauth.grant_type': fields.grant_type ?? '',
+      },
+    },
+    async span => {
+      const response = await sendTokenRequest(
+        transport,
+        tokenEndpoint,
+        fields,
+        signal
+      );
+      span?.setAttribute('http.response.status_code', response.status);
+      return parseTokenResponse(response, tokenEndpoint);
+    }
+  );
+}
+
+/**
+ * Parses a response from a token endpoint, throwing an AuthenticationError if it is an error or does not contain
+ * a usable access token and expiry.
+ */
+function parseTokenResponse(
+  response: HttpResponse,
+  tokenEndpoint: string
+): TokenResponse {
+  if (response.status >= 400) {
+    throw toAuthenticationError(response, tokenEndpoint);
+  }
+  const result = TokenResponseSchema.safeParse(response.data);
+  if (!result.success) {
+    throw new AuthenticationError(
+      {httpStatus: response.status, method: 'post', path: tokenEndpoint},
+      undefined,
+      `Invalid token response: ${result.error.issues
+        .map(issue => `${issue.path.join('.')} ${issue.message}`)
+        .join(', ')}`
+    );
+  }
+  return result.data;
+}
+
+async function sendTokenRequest(
+  transport: HttpTransport,
+  tokenEndpoint: string,
+  fields: Record<string, string | undefined>,
+  signal?: AbortSignal
+): Promise<HttpResponse> {
+  try {
+    return await abortable(
+      transport.request({
+        method: 'post',
+        url: tokenEndpoint,
+        headers: {
+          'content-type': 'application/x-www-form-urlencoded',
+          accept: 'application/json',
+        },
+        body: formEncode(fields),
+        signal,
+      }),
+      signal
+    );
+  } catch (err) {
+    if (signal?.aborted) {
+      throw new AuthenticationError(
+        {httpStatus: 0, method: 'post', path: tokenEndpoint},
+        undefined,
+        (signal.reason as Error | undefined)?.name === 'TimeoutError'
+          ? 'Token request timed out'
+          : 'Token request cancelled'
+      );
+    }
+    if (err instanceof TransportError && err.code !== 'ERR_CANCELED') {
+      throw new AuthenticationError(
+        {httpStatus: 0, method: 'post', path: tokenEndpoint},
+        undefined,
+        err.message
+      );
+    }
+    throw err;
+  }
+}
+
+/**
+ * Checks if the given parameter is a TokenProvider.
+ *
+ * @param p The parameter to check
+ */
+export function isTokenProvider(p: unknown): p is TokenProvider {
+  return (
+    typeof p === 'object' &&
+    p !== null &&
+    typeof (p as TokenProvider).getAccessToken === 'function'
+  );
+}
+
+/**
+ * Provides a fixed access token such as one obtained through an authorization code flow.
+ */
+export class StaticTokenProvider implements TokenProvider {
+  protected accessToken: string;
+
+  /**
+   * Create a new StaticTokenProvider instance
+   *
+   * @param accessToken The access token to send with each request
+   */
+  constructor(accessToken: string) {
+    this.accessToken = accessToken;
+  }
+
+  /**
+   * Replace the access token sent with each request
+   *
+   * @param accessToken The new access token
+   */
+  setAccessToken(accessToken: string): void {
+    this.accessToken = accessToken;
+  }
+
+  async getAccessToken(): Promise<string> {
+    return this.accessToken;
+  }
+}
+
+/**
+ * Obtains the access token from a callback each time one is needed. The callback is responsible for any caching.
+ */
+export class CallbackTokenProvider implements TokenProvider {
+  protected callback: (signal?: AbortSignal) => string | Promise<string>;
+
+  /**
+   * Create a new CallbackTokenProvider instance
+   *
+   * @param callback Returns the access token to send with a request
+   */
+  constructor(callback: (signal?: AbortSignal) => string | Promise<string>) {
+    this.callback = callback;
+  }
+
+  async getAccessToken(signal?: AbortSignal): Promise<string> {
+    return this.callback(signal);
+  }
+}
+
+/**
+ * Configuration for the RefreshTokenProvider class
+ */
+export interface RefreshTokenProviderConfig {
+  readonly clientId: string;
+  /**
+   * The client secret. Public clients such as browser applications using PKCE do not have one.
+   */
+  readonly clientSecret?: string;
+  readonly refreshToken: string;
+  readonly tokenEndpoint: string;
+  readonly scopes?: string[];
+  /**
+   * Sends the token requests. Default is an AxiosTransport.
+   */
+  readonly transport?: HttpTransport;
+  /**
+   * @deprecated Use transport instead.
+   */
+  readonly httpClient?: AxiosInstance;
+  /**
+   * The number of seconds before expiration to refresh the access token. Default is 60.
+   */
+  readonly refreshBeforeExpiration?: number;
+  /**
+   * The number of milliseconds a token request may take before it fails. Default is 30000.
+   */
+  readonly tokenRequestTimeout?: number;
+  /**
+   * Traces token requests as spans.
+   */
+  readonly tracer?: TelemetryTracer;
+  /**
+   * Called when the token endpoint rotates the refresh token so it can be persisted.
+   */
+  readonly onRefreshToken?: (refreshToken: string) => void | Promise<void>;
+}
+
+/**
+ * Obtains access tokens using the OAuth2 refresh token grant. Concurrent callers share a single refresh.
+ */
+export class RefreshTokenProvider implements TokenProvider {
+  protected clientId: string;
+  protected clientSecret?: string;
+  protected refreshToken: string;
+  protected tokenEndpoint: string;
+  protected scopes: string[];
+  protected transport: HttpTransport;
+  protected refreshBeforeExpiration: number;
+  protected tokenRequestTimeout: number;
+  protected onRefreshToken?: (refreshToken: string) => void | Promise<void>;
+  protected tracer?: TelemetryTracer;
+  protected accessToken?: string;
+  protected expiration?: number;
+  protected pending?: Promise<string>;
+
+  /**
+   * Create a new RefreshTokenProvider instance
+   *
+   * @param config Configuration for the RefreshTokenProvider instance
+   */
+  constructor(config: RefreshTokenProviderConfig) {
+    this.clientId = config.clientId;
+    this.clientSecret = config.clientSecret;
+    this.refreshToken = config.refreshToken;
+    this.tokenEndpoint = config.tokenEndpoint;
+    this.scopes = config.scopes ?? [];
+    this.transport = config.transport ?? new AxiosTransport(config.httpClient);
+    this.refreshBeforeExpiration = config.refreshBeforeExpiration ?? 60;
+    this.tokenRequestTimeout =
+      config.tokenRequestTimeout ?? DEFAULT_TOKEN_REQUEST_TIMEOUT;
+    this.onRefreshToken = config.onRefreshToken;
+    this.tracer = config.tracer;
+  }
+
+  async getAccessToken(signal?: AbortSignal): Promise<string> {
+    if (
+      this.accessToken !== undefined &&
+      this.expiration !== undefined &&
+      this.expiration > Date.now()
+    ) {
+      return this.accessToken;
+    }
+    if (this.pending === undefined) {
+      this.pending = this.refresh().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return abortable(this.pending, signal);
+  }
+
+  invalidate() {
+    this.accessToken = undefined;
+    this.expiration = undefined;
+  }
+
+  protected async refresh(): Promise<string> {
+    const token = await postTokenRequest(
+      this.transport,
+      this.tokenEndpoint,
+      {
+        grant_type: 'refresh_token',
+        refresh_token: this.refreshToken,
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        scope: this.scopes.length > 0 ? this.scopes.join(' ') : undefined,
+      },
+      this.tracer,
+      AbortSignal.timeout(this.tokenRequestTimeout)
+    );
+    this.accessToken = token.access_token;
+    this.expiration =
+      Date.now() + (token.expires_in - this.refreshBeforeExpiration) * 1000;
+    if (token.refresh_token && token.refresh_token !== this.refreshToken) {
+      this.refreshToken = token.refresh_token;
+      await this.onRefreshToken?.(this.refreshToken);
+    }
+    return this.accessToken!;
+  }
+
+  close() {
+    this.invalidate();
+  }
+}
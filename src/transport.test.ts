@@ -0,0 +1,162 @@
+import * as http from 'node:http';
+import {AddressInfo} from 'node:net';
+import * as logging from '@nr1e/logging';
+import {
+  AxiosTransport,
+  FetchTransport,
+  HttpTransport,
+  TransportError,
+} from './transport.js';
+import {XcorPlatformClient} from './xcorplatform-client.js';
+import {AuthenticationError} from './errors.js';
+import {MediaType} from './types/index.js';
+
+let server: http.Server;
+let baseUrl: string;
+let received: {headers: http.IncomingHttpHeaders; body: string}[] = [];
+
+beforeAll(async () => {
+  await logging.initialize({svc: 'xcorplatform-client', level: 'silent'});
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({headers: req.headers, body});
+      if (req.url === '/token') {
+        if (body.includes('client_secret=bad')) {
+          res.writeHead(400, {'content-type': 'application/json'});
+          res.end(JSON.stringify({error: 'invalid_client'}));
+          return;
+        }
+        res.writeHead(200, {'content-type': 'application/json'});
+        res.end(JSON.stringify({access_token: 'abc', expires_in: 3600}));
+      } else if (req.url === '/empty') {
+        res.writeHead(204);
+        res.end();
+      } else if (req.url === '/text') {
+        res.writeHead(500, {'content-type': 'text/plain'});
+        res.end('{"not": "parsed"}');
+      } else if (req.url === '/slow') {
+        setTimeout(() => res.end(), 1000);
+      } else {
+        res.writeHead(200, {
+          'content-type': MediaType.GET_ORG_RESPONSE,
+          'X-Request-Id': 'req-1',
+        });
+        res.end(JSON.stringify({id: 'acme', name: 'Acme'}));
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe.each<[string, () => HttpTransport]>([
+  ['AxiosTransport', () => new AxiosTransport()],
+  ['FetchTransport', () => new FetchTransport()],
+])('%s', (name, create) => {
+  test('Sends JSON and parses JSON content types', async () => {
+    const response = await create().request({
+      method: 'put',
+      url: `${baseUrl}/orgs/acme`,
+      headers: {'Content-Type': MediaType.UPDATE_ORG_REQUEST},
+      body: {id: 'acme', name: 'Acme'},
+    });
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({id: 'acme', name: 'Acme'});
+    expect(response.headers['x-request-id']).toBe('req-1');
+    expect(received[0].headers['content-type']).toBe(
+      MediaType.UPDATE_ORG_REQUEST
+    );
+    expect(JSON.parse(received[0].body)).toEqual({id: 'acme', name: 'Acme'});
+  });
+
+  test('Defaults the content type of object bodies to JSON', async () => {
+    await create().request({
+      method: 'post',
+      url: `${baseUrl}/orgs`,
+      headers: {},
+      body: {id: 'acme'},
+    });
+    expect(received[0].headers['content-type']).toBe('application/json');
+  });
+
+  test('Resolves error statuses and leaves other bodies as text', async () => {
+    const transport = create();
+    const text = await transport.request({
+      method: 'get',
+      url: `${baseUrl}/text`,
+      headers: {},
+    });
+    expect(text.status).toBe(500);
+    expect(text.data).toBe('{"not": "parsed"}');
+    const empty = await transport.request({
+      method: 'delete',
+      url: `${baseUrl}/empty`,
+      headers: {},
+    });
+    expect(empty.status).toBe(204);
+    expect(empty.data).toBeUndefined();
+  });
+
+  test('Rejects with TransportError when no response is received', async () => {
+    const closed = http.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise(resolve => closed.close(resolve));
+    const refused = create().request({
+      method: 'get',
+      url: `http://127.0.0.1:${port}/orgs`,
+      headers: {},
+    });
+    await expect(refused).rejects.toThrow(TransportError);
+    await expect(refused).rejects.toMatchObject({code: 'ECONNREFUSED'});
+
+    const controller = new AbortController();
+    const cancelled = create().request({
+      method: 'get',
+      url: `${baseUrl}/slow`,
+      headers: {},
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 20);
+    await expect(cancelled).rejects.toMatchObject({code: 'ERR_CANCELED'});
+  });
+});
+
+test('Client uses the selected transport for token requests', async () => {
+  const client = new XcorPlatformClient({
+    baseUrl,
+    transport: 'fetch',
+    authConfig: {
+      clientId: 'id',
+      clientSecret: 'secret',
+      tokenEndpoint: `${baseUrl}/token`,
+    },
+  });
+  expect(await client.orgs.get('acme')).toEqual({id: 'acme', name: 'Acme'});
+  expect(received[0].headers['content-type']).toBe(
+    'application/x-www-form-urlencoded'
+  );
+  expect(received[1].headers.authorization).toBe('Bearer abc');
+
+  client.auth({
+    clientId: 'id',
+    clientSecret: 'bad',
+    tokenEndpoint: `${baseUrl}/token`,
+  });
+  const failed = client.orgs.get('acme');
+  await expect(failed).rejects.toThrow(AuthenticationError);
+  await expect(failed).rejects.toMatchObject({
+    httpStatus: 400,
+    oauthError: 'invalid_client',
+  });
+});
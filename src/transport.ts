@@ -0,0 +1,232 @@
+import type {AxiosInstance} from 'axios';
+
+/**
+ * An HTTP request made by a transport.
+ */
+export interface HttpRequest {
+  readonly method: string;
+  /**
+   * The absolute URL including any query string.
+   */
+  readonly url: string;
+  /**
+   * The request headers with lower case names.
+   */
+  readonly headers: Record<string, string>;
+  /**
+   * The request body. Strings are sent as is and any other value is sent as JSON with an application/json
+   * content type unless one is set.
+   */
+  readonly body?: unknown;
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * An HTTP response received by a transport.
+ *
+ * @template T - The type of the response body.
+ */
+export interface HttpResponse<T = unknown> {
+  readonly status: number;
+  /**
+   * The response headers with lower case names.
+   */
+  readonly headers: Record<string, string>;
+  /**
+   * The response body. Bodies with a JSON content type such as application/json or application/vnd.x+json are
+   * parsed, other bodies are returned as text and empty bodies are undefined.
+   */
+  readonly data: T;
+}
+
+/**
+ * Sends HTTP requests for the client. Implementations must resolve for every response regardless of status and
+ * reject with a TransportError when no response is received, including when the request signal is aborted.
+ */
+export interface HttpTransport {
+  request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
+
+/**
+ * Thrown by a transport when no response is received.
+ */
+export class TransportError extends Error {
+  /**
+   * The network error code such as ECONNRESET or ERR_CANCELED if one is known.
+   */
+  readonly code?: string;
+
+  constructor(message?: string, code?: string) {
+    message = message ?? 'Transport error';
+    super(message);
+    this.name = 'TransportError';
+    this.code = code;
+  }
+}
+
+/**
+ * Converts header values into a record with lower case names. Multiple values are joined with a comma.
+ *
+ * @param headers The headers to convert
+ */
+export function normalizeHeaders(
+  headers: Record<string, unknown>
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    result[name.toLowerCase()] = Array.isArray(value)
+      ? value.join(', ')
+      : String(value);
+  }
+  return result;
+}
+
+/**
+ * Serializes the body of a request. Returns the headers to send, which include a JSON content type if the body
+ * is serialized as JSON and no content type is set.
+ *
+ * @param request The request to serialize
+ */
+export function encodeBody(
+  request: HttpRequest
+): [string | undefined, Record<string, string>] {
+  const headers = normalizeHeaders(request.headers);
+  if (request.body === undefined || typeof request.body === 'string') {
+    return [request.body, headers];
+  }
+  if (headers['content-type'] === undefined) {
+    headers['content-type'] = 'application/json';
+  }
+  return [JSON.stringify(request.body), headers];
+}
+
+/**
+ * Parses the text of a response body according to its content type. Empty bodies are undefined and JSON bodies
+ * that fail to parse are returned as text.
+ *
+ * @param text The response body
+ * @param contentType The content-type header of the response
+ */
+export function decodeBody(text: string, contentType?: string): unknown {
+  if (text === '') {
+    return undefined;
+  }
+  if (contentType && /^[^;]*[/+]json\s*(;|$)/i.test(contentType)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/**
+ * An HttpTransport that uses axios. Axios is loaded when the first request is made so bundles that only use
+ * FetchTransport do not need it.
+ */
+export class AxiosTransport implements HttpTransport {
+  protected instance?: AxiosInstance;
+
+  /**
+   * Create a new AxiosTransport instance
+   *
+   * @param instance The axios instance to use. A new instance is created if not provided.
+   */
+  constructor(instance?: AxiosInstance) {
+    this.instance = instance;
+  }
+
+  async request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const axios = (await import('axios')).default;
+    this.instance = this.instance ?? axios.create();
+    const [body, headers] = encodeBody(request);
+    try {
+      const response = await this.instance.request<string>({
+        method: request.method,
+        url: request.url,
+        headers,
+        data: body,
+        signal: request.signal,
+        responseType: 'text',
+        // Parsing is done by decodeBody so both transports treat bodies the same way
+        transformResponse: data => data,
+        validateStatus: () => true,
+      });
+      const responseHeaders = normalizeHeaders(response.headers);
+      return {
+        status: response.status,
+        headers: responseHeaders,
+        data: decodeBody(
+          response.data ?? '',
+          responseHeaders['content-type']
+        ) as T,
+      };
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err)) {
+        throw new TransportError(
+          err.message,
+          axios.isCancel(err) ? 'ERR_CANCELED' : err.code
+        );
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * An HttpTransport that uses the fetch API available in browsers, Node.js 18 and later, Deno, Bun and edge
+ * runtimes such as Cloudflare Workers.
+ */
+export class FetchTransport implements HttpTransport {
+  protected fetch: typeof fetch;
+
+  /**
+   * Create a new FetchTransport instance
+   *
+   * @param fetchFn The fetch function to use. Default is the global fetch.
+   */
+  constructor(fetchFn?: typeof fetch) {
+    // The global is looked up when a request is made so runtimes without fetch only fail if it is used
+    this.fetch = fetchFn ?? ((input, init) => fetch(input, init));
+  }
+
+  async request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const [body, headers] = encodeBody(request);
+    // Browsers reject calls to fetch with this set to anything but the window
+    const fetchFn = this.fetch;
+    try {
+      const response = await fetchFn(request.url, {
+        method: request.method.toUpperCase(),
+        headers,
+        body,
+        signal: request.signal,
+      });
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name.toLowerCase()] = value;
+      });
+      return {
+        status: response.status,
+        headers: responseHeaders,
+        data: decodeBody(
+          await response.text(),
+          responseHeaders['content-type']
+        ) as T,
+      };
+    } catch (err: unknown) {
+      if (request.signal?.aborted) {
+        throw new TransportError('canceled', 'ERR_CANCELED');
+      }
+      // fetch only rejects when no response is received. Node.js reports the underlying network error as the cause.
+      const cause = (err as {cause?: {code?: unknown}} | null)?.cause;
+      throw new TransportError(
+        err instanceof Error ? err.message : String(err),
+        typeof cause?.code === 'string' ? cause.code : undefined
+      );
+    }
+  }
+}
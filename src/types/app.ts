@@ -1,6 +1,6 @@
-import {CommandRequest, z} from './command';
-import {OpenAPIRegistry} from '@asteasolutions/zod-to-openapi';
-import {MediaType} from './media-types';
+import {z} from './command.js';
+import {defineCommand} from './definition.js';
+import {MediaType} from './media-types.js';
 
 export const AppConstraint = {
   ID_REGEX: /^[0-9a-z-]+$/,
@@ -56,39 +56,47 @@ export const CreateAppRequest = z
 
 export type ICreateAppRequest = z.infer<typeof CreateAppRequest>;
 
-export class CreateAppCommand extends CommandRequest<ICreateAppRequest, void> {
-  constructor(readonly data: ICreateAppRequest) {
-    super({
-      method: 'post',
-      path: '/apps',
-      data,
-      requestType: MediaType.CREATE_APP_REQUEST,
-    });
-  }
-
-  static register(registry: OpenAPIRegistry) {
-    registry.registerPath({
-      description: 'CreateApp',
-      tags: ['CreateApp'],
-      method: 'post',
-      path: '/apps',
-      request: {
-        body: {
-          content: {
-            [MediaType.CREATE_APP_REQUEST]: {
-              schema: CreateAppRequest,
-            },
-          },
-        },
-      },
-      responses: {
-        '201': {
-          description: 'App created successfully',
-        },
-      },
-    });
-  }
-}
+export const CreateAppCommand = defineCommand({
+  name: 'CreateAppCommand',
+  description: 'Create App',
+  tags: ['App'],
+  method: 'post',
+  path: '/apps',
+  body: CreateAppRequest,
+  requestType: MediaType.CREATE_APP_REQUEST,
+  responses: {
+    201: 'App created successfully',
+    409: 'App already exists',
+  },
+});
+export type CreateAppCommand = InstanceType<typeof CreateAppCommand>;
+
+//-----------------------------------------------------------------------------
+// Update
+//-----------------------------------------------------------------------------
+
+export const UpdateAppRequest = CreateAppRequest.extend({}).openapi(
+  'UpdateAppRequest'
+);
+
+export type IUpdateAppRequest = z.infer<typeof UpdateAppRequest>;
+
+export const UpdateAppCommand = defineCommand({
+  name: 'UpdateAppCommand',
+  description: 'Update App',
+  tags: ['App'],
+  method: 'put',
+  path: '/apps/{id}',
+  params: z.object({id: AppField.id}),
+  body: UpdateAppRequest,
+  requestType: MediaType.UPDATE_APP_REQUEST,
+  conditional: true,
+  responses: {
+    204: 'App updated successfully',
+    404: 'App does not exist',
+  },
+});
+export type UpdateAppCommand = InstanceType<typeof UpdateAppCommand>;
 
 //-----------------------------------------------------------------------------
 // Get
@@ -114,37 +122,22 @@ export const GetAppResponse = z
 
 export type IGetAppResponse = z.infer<typeof GetAppResponse>;
 
-export class GetAppCommand extends CommandRequest<IGetAppRequest, void> {
-  constructor(readonly data: IGetAppRequest) {
-    super({
-      method: 'get',
-      path: `/apps/${data.id}`,
-      responseType: MediaType.GET_APP_RESPONSE,
-    });
-  }
-
-  static register(registry: OpenAPIRegistry) {
-    registry.registerPath({
-      description: 'GetApp',
-      tags: ['GetApp'],
-      method: 'get',
-      path: '/apps/{id}',
-      request: {
-        params: z.object({id: AppField.id}),
-      },
-      responses: {
-        '200': {
-          description: 'App retrieved successfully',
-          content: {
-            [MediaType.GET_APP_RESPONSE]: {
-              schema: GetAppResponse,
-            },
-          },
-        },
-      },
-    });
-  }
-}
+export const GetAppCommand = defineCommand({
+  name: 'GetAppCommand',
+  description: 'Get App',
+  tags: ['App'],
+  method: 'get',
+  path: '/apps/{id}',
+  params: GetAppRequest,
+  response: GetAppResponse,
+  responseType: MediaType.GET_APP_RESPONSE,
+  conditional: true,
+  responses: {
+    200: 'App retrieved successfully',
+    404: 'App does not exist',
+  },
+});
+export type GetAppCommand = InstanceType<typeof GetAppCommand>;
 
 //-----------------------------------------------------------------------------
 // Head
@@ -154,35 +147,93 @@ export const AppExistsRequest = z
   .object({
     id: AppField.id,
   })
-  .openapi('AppExitsRequest');
+  .openapi('AppExistsRequest');
 
 export type IAppExistsRequest = z.infer<typeof AppExistsRequest>;
 
-export class AppExistsCommand extends CommandRequest<IAppExistsRequest, void> {
-  constructor(readonly data: IAppExistsRequest) {
-    super({
-      method: 'head',
-      path: `/apps/${data.id}`,
-    });
-  }
-
-  static register(registry: OpenAPIRegistry) {
-    registry.registerPath({
-      description: 'HeadApp',
-      tags: ['HeadApp'],
-      method: 'head',
-      path: '/apps/{id}',
-      request: {
-        params: z.object({id: AppField.id}),
-      },
-      responses: {
-        '200': {
-          description: 'App exists',
-        },
-        '404': {
-          description: 'App does not exist',
-        },
-      },
-    });
-  }
-}
+export const AppExistsCommand = defineCommand({
+  name: 'AppExistsCommand',
+  description: 'App Exists',
+  tags: ['App'],
+  method: 'head',
+  path: '/apps/{id}',
+  params: AppExistsRequest,
+  responses: {
+    200: 'App exists',
+    404: 'App does not exist',
+  },
+});
+export type AppExistsCommand = InstanceType<typeof AppExistsCommand>;
+
+//-----------------------------------------------------------------------------
+// Find
+//-----------------------------------------------------------------------------
+
+export const FindAppRequest = z
+  .object({
+    idStartsWith: AppField.id.optional(),
+    nameStartsWith: AppField.name.optional(),
+    next: z.string().optional(),
+  })
+  .openapi('FindAppRequest');
+
+export type IFindAppRequest = z.infer<typeof FindAppRequest>;
+
+export const FindAppResponse = z
+  .object({
+    items: z.array(
+      z.object({
+        id: AppField.id,
+        name: AppField.name,
+        author: AppField.author,
+        createdAt: AppField.createdAt,
+        updatedAt: AppField.updatedAt,
+      })
+    ),
+    next: z.string().optional(),
+  })
+  .openapi('FindAppResponse');
+
+export type IFindAppResponse = z.infer<typeof FindAppResponse>;
+
+export const FindAppCommand = defineCommand({
+  name: 'FindAppCommand',
+  description: 'Find Apps',
+  tags: ['App'],
+  method: 'get',
+  path: '/apps',
+  query: FindAppRequest,
+  response: FindAppResponse,
+  responseType: MediaType.FIND_APP_RESPONSE,
+  responses: {
+    200: 'Apps found successfully',
+  },
+});
+export type FindAppCommand = InstanceType<typeof FindAppCommand>;
+
+//-----------------------------------------------------------------------------
+// Delete
+//-----------------------------------------------------------------------------
+
+export const DeleteAppRequest = z
+  .object({
+    id: AppField.id,
+  })
+  .openapi('DeleteAppRequest');
+
+export type IDeleteAppRequest = z.infer<typeof DeleteAppRequest>;
+
+export const DeleteAppCommand = defineCommand({
+  name: 'DeleteAppCommand',
+  description: 'Delete App',
+  tags: ['App'],
+  method: 'delete',
+  path: '/apps/{id}',
+  params: DeleteAppRequest,
+  conditional: true,
+  responses: {
+    204: 'App deleted successfully',
+    404: 'App does not exist',
+  },
+});
+export type DeleteAppCommand = InstanceType<typeof DeleteAppCommand>;
@@ -1,5 +1,6 @@
 import {z} from 'zod';
 import {extendZodWithOpenApi} from '@asteasolutions/zod-to-openapi';
+import {RequestValidationError} from '../errors.js';
 
 extendZodWithOpenApi(z);
 
@@ -9,13 +10,21 @@ export {z};
  * Properties required to make a command request.
  *
  * @template T The type of request data.
+ * @template R The type of response data.
  */
-export interface CommandRequestProps<T> {
+export interface CommandRequestProps<T, R = unknown> {
   readonly method: string;
   readonly path: string;
+  /**
+   * The path template such as /orgs/{id} when the path contains parameters. Used to identify the operation in
+   * telemetry without the parameter values.
+   */
+  readonly route?: string;
   readonly data?: T;
   readonly requestType?: string;
   readonly responseType?: string;
+  readonly requestSchema?: z.ZodType<T>;
+  readonly responseSchema?: z.ZodType<R>;
   readonly headers?: Record<string, string>;
 }
 
@@ -26,10 +35,57 @@ export interface CommandRequestProps<T> {
  * @template Res - The type of the response object.
  */
 export abstract class CommandRequest<Req, Res> {
-  props: CommandRequestProps<Req>;
-  constructor(props: CommandRequestProps<Req>) {
+  abstract readonly data: Req;
+  props: CommandRequestProps<Req, Res>;
+  constructor(props: CommandRequestProps<Req, Res>) {
     this.props = props;
   }
+
+  /**
+   * Returns a copy of the command that is only sent if the resource still has the given ETag, such as one
+   * returned with a previous get. If the resource has changed since, the API responds with 412 and a
+   * PreconditionFailedError is returned. This command is not changed.
+   *
+   * @param etag The ETag of the resource
+   */
+  ifMatch(etag: string): this {
+    const command = Object.assign(
+      Object.create(Object.getPrototypeOf(this)) as this,
+      this
+    );
+    command.props = {
+      ...this.props,
+      headers: {...this.props.headers, 'if-match': etag},
+    };
+    return command;
+  }
+
+  /**
+   * Validates the command data against the request schema if one is present. Delete commands may not have data.
+   *
+   * @returns A RequestValidationError describing each invalid field or undefined if the data is valid.
+   */
+  validate(): RequestValidationError | undefined {
+    if (this.props.method === 'delete' && this.props.data) {
+      return new RequestValidationError([
+        {path: '', message: 'Delete requests cannot have data'},
+      ]);
+    }
+    const schema = this.props.requestSchema;
+    if (schema === undefined) {
+      return undefined;
+    }
+    const result = schema.safeParse(this.data);
+    if (result.success) {
+      return undefined;
+    }
+    return new RequestValidationError(
+      result.error.issues.map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      }))
+    );
+  }
 }
 
 /**
@@ -42,4 +98,94 @@ export interface CommandResponse<Res> {
   readonly error?: Error;
   readonly httpStatus: number;
   readonly contentType?: string;
+  readonly validationIssues?: z.ZodIssue[];
+  /**
+   * The request ID reported by the API, if any.
+   */
+  readonly requestId?: string;
+  /**
+   * The number of HTTP requests made for the command, including retries.
+   */
+  readonly attempts?: number;
+  /**
+   * The ETag of the resource if the API returned one. Pass it to ifMatch on an update or delete to detect
+   * concurrent changes.
+   */
+  readonly etag?: string;
+  /**
+   * The Last-Modified header if the API returned one.
+   */
+  readonly lastModified?: string;
+  /**
+   * True if the data was served from the response cache because the API responded 304 Not Modified.
+   */
+  readonly cached?: boolean;
+  /**
+   * True if the API responded 304 Not Modified to a get sent with its own If-None-Match or If-Modified-Since.
+   * There is no data as the caller already holds the current representation.
+   */
+  readonly notModified?: boolean;
+}
+
+/**
+ * Represents a successful command result.
+ *
+ * @template Res - The type of the response data.
+ */
+export interface CommandSuccess<Res> {
+  readonly ok: true;
+  readonly data: Res;
+  readonly httpStatus: number;
+  readonly contentType?: string;
+  readonly validationIssues?: z.ZodIssue[];
+  readonly etag?: string;
+  readonly lastModified?: string;
+  readonly cached?: boolean;
+  readonly notModified?: boolean;
+}
+
+/**
+ * Represents a failed command result.
+ */
+export interface CommandFailure {
+  readonly ok: false;
+  readonly error: Error;
+  readonly httpStatus: number;
+  readonly contentType?: string;
+}
+
+/**
+ * Represents a command result that TypeScript narrows on the ok field.
+ *
+ * @template Res - The type of the response data.
+ */
+export type CommandResult<Res> = CommandSuccess<Res> | CommandFailure;
+
+/**
+ * Converts a command response into a command result.
+ *
+ * @param response The command response to convert.
+ */
+export function toCommandResult<Res>(
+  response: CommandResponse<Res>
+): CommandResult<Res> {
+  if (response.error) {
+    return {
+      ok: false,
+      error: response.error,
+      httpStatus: response.httpStatus,
+      contentType: response.contentType,
+    };
+  }
+  return {
+    ok: true,
+    data: response.data as Res,
+    httpStatus: response.httpStatus,
+    contentType: response.contentType,
+    validationIssues: response.validationIssues,
+    etag: response.etag,
+    lastModified: response.lastModified,
+    cached: response.cached,
+    notModified: response.notModified,
+  };
 }
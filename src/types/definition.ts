@@ -0,0 +1,407 @@
+import {OpenAPIRegistry, ResponseConfig} from '@asteasolutions/zod-to-openapi';
+import {RequestValidationError} from '../errors.js';
+import {CommandRequest, CommandRequestProps, z} from './command.js';
+import {ErrorResponse} from './error.js';
+import {MediaType} from './media-types.js';
+
+/**
+ * HTTP methods supported by commands.
+ */
+export type CommandMethod =
+  | 'get'
+  | 'post'
+  | 'put'
+  | 'patch'
+  | 'delete'
+  | 'head';
+
+/**
+ * Declares everything about a command in one place. The command class, OpenAPI operation and request path are
+ * all derived from it.
+ *
+ * @template P - The schema of the path parameters.
+ * @template Q - The schema of the query parameters.
+ * @template B - The schema of the request body.
+ * @template R - The schema of the response body.
+ */
+export interface CommandDefinition<
+  P extends z.AnyZodObject | undefined,
+  Q extends z.AnyZodObject | undefined,
+  B extends z.ZodTypeAny | undefined,
+  R extends z.ZodTypeAny | undefined,
+> {
+  /**
+   * The name of the command class such as GetOrgCommand. The OpenAPI operation ID is derived from it.
+   */
+  readonly name: string;
+  readonly description: string;
+  readonly tags: string[];
+  readonly method: CommandMethod;
+  /**
+   * The path template. Parameters in braces such as /orgs/{id} are replaced with the URL encoded value of the
+   * field of the same name in the command data.
+   */
+  readonly path: string;
+  readonly params?: P;
+  /**
+   * The query parameters. Fields in the command data matching the schema keys are sent in the query string.
+   */
+  readonly query?: Q;
+  /**
+   * The request body. When set, the command data is sent as the body.
+   */
+  readonly body?: B;
+  readonly requestType?: string;
+  /**
+   * Headers the API requires that are documented in the OpenAPI operation.
+   */
+  readonly headers?: z.AnyZodObject;
+  /**
+   * The API supports conditional requests on the resource. A get returns an ETag and Last-Modified and responds
+   * 304 to If-None-Match, while an update or delete accepts If-Match and responds 412 if the resource changed.
+   */
+  readonly conditional?: boolean;
+  readonly response?: R;
+  readonly responseType?: string;
+  /**
+   * Descriptions of each status the API responds with. The response schema is documented on success statuses
+   * other than 204 and the ErrorResponse schema on 4xx and 5xx statuses of commands other than HEAD.
+   */
+  readonly responses: Record<number, string>;
+}
+
+type SchemaOutput<S> = S extends z.ZodTypeAny ? z.output<S> : unknown;
+
+/**
+ * The type of the data of a command derived from its definition. Commands without parameters or a body take
+ * no data.
+ */
+export type CommandData<P, Q, B> = [P, Q, B] extends [
+  undefined,
+  undefined,
+  undefined,
+]
+  ? void
+  : SchemaOutput<P> & SchemaOutput<Q> & SchemaOutput<B>;
+
+/**
+ * A command class created by defineCommand.
+ */
+export interface CommandClass<Req = unknown, Res = unknown> {
+  new (data: Req): CommandRequest<Req, Res>;
+  readonly definition: CommandDefinition<
+    z.AnyZodObject | undefined,
+    z.AnyZodObject | undefined,
+    z.ZodTypeAny | undefined,
+    z.ZodTypeAny | undefined
+  >;
+  readonly operationId: string;
+  register(registry: OpenAPIRegistry): void;
+}
+
+/**
+ * Holds every command so the OpenAPI document and dispatch by operation ID always cover the same commands.
+ */
+export class CommandRegistry {
+  protected readonly commands = new Map<string, CommandClass>();
+
+  /**
+   * Add a command. Throws if a command with the same operation ID was already added.
+   *
+   * @param command The command to add
+   */
+  add<Req, Res>(command: CommandClass<Req, Res>): void {
+    if (this.commands.has(command.operationId)) {
+      throw new Error(`Command ${command.operationId} is already registered`);
+    }
+    this.commands.set(command.operationId, command as unknown as CommandClass);
+  }
+
+  /**
+   * Get a command by operation ID.
+   *
+   * @param operationId The operation ID such as getOrg
+   */
+  get(operationId: string): CommandClass | undefined {
+    return this.commands.get(operationId);
+  }
+
+  /**
+   * Create a command by operation ID. Throws if there is no such command.
+   *
+   * @param operationId The operation ID such as getOrg
+   * @param data The command data
+   */
+  create(
+    operationId: string,
+    data?: unknown
+  ): CommandRequest<unknown, unknown> {
+    const command = this.get(operationId);
+    if (command === undefined) {
+      throw new Error(`Unknown command ${operationId}`);
+    }
+    return new command(data);
+  }
+
+  /**
+   * Every command in the order they were added.
+   */
+  all(): CommandClass[] {
+    return [...this.commands.values()];
+  }
+
+  /**
+   * Register every command with an OpenAPI registry.
+   *
+   * @param registry The registry to register with
+   */
+  register(registry: OpenAPIRegistry): void {
+    for (const command of this.commands.values()) {
+      command.register(registry);
+    }
+  }
+}
+
+/**
+ * The registry every command created by defineCommand is added to.
+ */
+export const commandRegistry = new CommandRegistry();
+
+function operationIdOf(name: string): string {
+  const base = name.replace(/Command$/, '');
+  return base.charAt(0).toLowerCase() + base.slice(1);
+}
+
+function requestSchemaOf(
+  parts: (z.ZodTypeAny | undefined)[]
+): z.ZodTypeAny | undefined {
+  const schemas = parts.filter((p): p is z.ZodTypeAny => p !== undefined);
+  if (schemas.length === 0) {
+    return undefined;
+  }
+  return schemas.reduce((a, b) => a.and(b));
+}
+
+/**
+ * Replaces the parameters in a path template with URL encoded values from the data.
+ *
+ * @param path The path template such as /orgs/{id}
+ * @param data The values of the parameters
+ */
+export function expandPath(path: string, data: unknown): string {
+  const [expanded, missing] = expandParams(path, data);
+  if (missing.length > 0) {
+    throw new Error(`Missing path parameter ${missing[0]} for ${path}`);
+  }
+  return expanded;
+}
+
+/**
+ * Replaces the parameters in a path template that have values, leaving the others in place.
+ *
+ * @returns The path and the names of the parameters without a value
+ */
+function expandParams(path: string, data: unknown): [string, string[]] {
+  const missing: string[] = [];
+  const expanded = path.replace(/{([^}]+)}/g, (match, name: string) => {
+    const value = (data as Record<string, unknown> | undefined)?.[name];
+    if (value === undefined || value === null) {
+      missing.push(name);
+      return match;
+    }
+    return encodeURIComponent(String(value));
+  });
+  return [expanded, missing];
+}
+
+function pick(
+  data: unknown,
+  schema: z.AnyZodObject | undefined
+): Record<string, unknown> | undefined {
+  if (schema === undefined || typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(schema.shape)) {
+    if (key in data) {
+      result[key] = (data as Record<string, unknown>)[key];
+    }
+  }
+  return result;
+}
+
+/**
+ * The response headers of a conditional get used to make later requests conditional.
+ */
+const VALIDATOR_HEADERS = {
+  ETag: {description: 'The version of the resource', schema: {type: 'string'}},
+  'Last-Modified': {
+    description: 'When the resource last changed',
+    schema: {type: 'string'},
+  },
+} as const;
+
+function responsesOf(
+  definition: CommandDefinition<
+    z.AnyZodObject | undefined,
+    z.AnyZodObject | undefined,
+    z.ZodTypeAny | undefined,
+    z.ZodTypeAny | undefined
+  >
+): Record<string, ResponseConfig> {
+  const responses: Record<string, ResponseConfig> = {};
+  for (const [status, description] of Object.entries(definition.responses)) {
+    if (Number(status) >= 400 && definition.method !== 'head') {
+      responses[status] = {
+        description,
+        content: {[MediaType.ERROR_RESPONSE]: {schema: ErrorResponse}},
+      };
+    } else if (status !== '204' && definition.response) {
+      responses[status] = {
+        description,
+        content: {
+          [definition.responseType ?? 'application/json']: {
+            schema: definition.response,
+          },
+        },
+      };
+    } else {
+      responses[status] = {description};
+    }
+  }
+  if (definition.conditional && definition.method === 'get') {
+    for (const [status, response] of Object.entries(responses)) {
+      if (Number(status) < 300) {
+        responses[status] = {...response, headers: VALIDATOR_HEADERS};
+      }
+    }
+    responses[304] = {description: 'Not modified since the ETag sent'};
+  } else if (definition.conditional) {
+    responses[412] = {
+      description: 'Changed since the ETag sent in If-Match',
+      content: {[MediaType.ERROR_RESPONSE]: {schema: ErrorResponse}},
+    };
+  }
+  return responses;
+}
+
+function headersOf(
+  definition: CommandDefinition<
+    z.AnyZodObject | undefined,
+    z.AnyZodObject | undefined,
+    z.ZodTypeAny | undefined,
+    z.ZodTypeAny | undefined
+  >
+): z.AnyZodObject | undefined {
+  if (!definition.conditional) {
+    return definition.headers;
+  }
+  const conditions =
+    definition.method === 'get'
+      ? z.object({
+          'If-None-Match': z.string().optional(),
+          'If-Modified-Since': z.string().optional(),
+        })
+      : z.object({'If-Match': z.string().optional()});
+  return definition.headers ? definition.headers.merge(conditions) : conditions;
+}
+
+/**
+ * Creates a command class from a definition and adds it to the command registry.
+ *
+ * @example
+ * export const GetOrgCommand = defineCommand({
+ *   name: 'GetOrgCommand',
+ *   method: 'get',
+ *   path: '/orgs/{id}',
+ *   params: z.object({id: OrgField.id}),
+ *   ...
+ * });
+ * export type GetOrgCommand = InstanceType<typeof GetOrgCommand>;
+ *
+ * @param definition The definition of the command
+ */
+export function defineCommand<
+  P extends z.AnyZodObject | undefined = undefined,
+  Q extends z.AnyZodObject | undefined = undefined,
+  B extends z.ZodTypeAny | undefined = undefined,
+  R extends z.ZodTypeAny | undefined = undefined,
+>(definition: CommandDefinition<P, Q, B, R>) {
+  type Req = CommandData<P, Q, B>;
+  type Res = R extends z.ZodTypeAny ? z.output<R> : void;
+  const requestSchema = requestSchemaOf([
+    definition.params,
+    definition.query,
+    definition.body,
+  ]);
+  const operationId = operationIdOf(definition.name);
+
+  const command = class extends CommandRequest<Req, Res> {
+    static readonly definition = definition;
+    static readonly operationId = operationId;
+    constructor(readonly data: Req) {
+      // Missing parameters are reported by validate so bad data is returned as a RequestValidationError
+      const [path] = expandParams(definition.path, data);
+      const props: CommandRequestProps<Req, Res> = {
+        method: definition.method,
+        path,
+        route: definition.path.includes('{') ? definition.path : undefined,
+        data: definition.body
+          ? data
+          : (pick(data, definition.query) as Req | undefined),
+        requestType: definition.requestType,
+        responseType: definition.responseType,
+        requestSchema: requestSchema as z.ZodType<Req> | undefined,
+        responseSchema: definition.response as z.ZodType<Res> | undefined,
+      };
+      super(props);
+    }
+
+    validate(): RequestValidationError | undefined {
+      const error = super.validate();
+      const [, missing] = expandParams(definition.path, this.data);
+      if (error !== undefined || missing.length === 0) {
+        return error;
+      }
+      return new RequestValidationError(
+        missing.map(name => ({
+          path: name,
+          message: 'Required path parameter',
+        }))
+      );
+    }
+
+    /**
+     * Register the command with the given OpenAPI registry.
+     *
+     * @param registry The registry to register with
+     */
+    static register(registry: OpenAPIRegistry) {
+      registry.registerPath({
+        operationId,
+        description: definition.description,
+        tags: definition.tags,
+        method: definition.method,
+        path: definition.path,
+        request: {
+          params: definition.params,
+          query: definition.query,
+          headers: headersOf(definition),
+          body: definition.body
+            ? {
+                content: {
+                  [definition.requestType ?? 'application/json']: {
+                    schema: definition.body,
+                  },
+                },
+              }
+            : undefined,
+        },
+        responses: responsesOf(definition),
+      });
+    }
+  };
+  Object.defineProperty(command, 'name', {value: definition.name});
+  commandRegistry.add(command);
+  return command;
+}
@@ -1,4 +1,4 @@
-import {z} from './command';
+import {z} from './command.js';
 export const ErrorResponse = z
   .object({
     message: z.string(),
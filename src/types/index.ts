@@ -1,6 +1,9 @@
-export * from './command';
-export * from './error';
-export * from './invite';
-export * from './media-types';
-export * from './org';
-export * from './userinfo';
+export * from './app.js';
+export * from './command.js';
+export * from './definition.js';
+export * from './error.js';
+export * from './invite.js';
+export * from './media-types.js';
+export * from './member.js';
+export * from './org.js';
+export * from './userinfo.js';
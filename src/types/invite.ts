@@ -1,14 +1,58 @@
-import {CommandRequest, z} from './command';
-import {OpenAPIRegistry} from '@asteasolutions/zod-to-openapi';
-import {MediaType} from './media-types';
+import {z} from './command.js';
+import {defineCommand} from './definition.js';
+import {MediaType} from './media-types.js';
+import {MemberField, OrgMember} from './member.js';
+import {OrgField} from './org.js';
+
+/**
+ * The states of an invite. Only pending invites can be resent, revoked or accepted.
+ */
+export const InviteStatus = z
+  .enum(['pending', 'accepted', 'revoked', 'expired'])
+  .openapi('InviteStatus');
+
+export type IInviteStatus = z.infer<typeof InviteStatus>;
+
+export const InviteField = {
+  id: z.string().min(1),
+  email: z.string().email(),
+  roles: MemberField.roles,
+  createdAt: z.number(),
+  expiresAt: z.number(),
+};
+
+/**
+ * Schema for an invite of a user to an org.
+ */
+export const Invite = z
+  .object({
+    id: InviteField.id,
+    orgId: OrgField.id,
+    email: InviteField.email,
+    roles: InviteField.roles,
+    status: InviteStatus,
+    createdAt: InviteField.createdAt,
+    expiresAt: InviteField.expiresAt,
+  })
+  .openapi('Invite');
+
+/**
+ * Type for invites.
+ */
+export type IInvite = z.infer<typeof Invite>;
+
+//-----------------------------------------------------------------------------
+// Create
+//-----------------------------------------------------------------------------
 
 /**
  * Schema for invite requests.
  */
 export const InviteRequest = z
   .object({
-    email: z.string().email(),
-    orgId: z.string(),
+    email: InviteField.email,
+    orgId: OrgField.id,
+    roles: InviteField.roles.optional(),
   })
   .openapi('InviteRequest');
 
@@ -18,46 +62,143 @@ export const InviteRequest = z
 export type IInviteRequest = z.infer<typeof InviteRequest>;
 
 /**
- * Command for inviting a user to an org.
- */
-export class InviteCommand extends CommandRequest<IInviteRequest, void> {
-  constructor(readonly data: IInviteRequest) {
-    super({
-      method: 'post',
-      path: '/invite',
-      data,
-      requestType: MediaType.INVITE_REQUEST,
-    });
-  }
-
-  /**
-   * Register the invite command with the given OpenAPI registry.
-   *
-   * @param registry
-   */
-  static register(registry: OpenAPIRegistry) {
-    registry.registerPath({
-      description: 'Invite',
-      tags: ['Invite'],
-      method: 'post',
-      path: '/invite',
-      request: {
-        body: {
-          content: {
-            [MediaType.INVITE_REQUEST]: {
-              schema: InviteRequest,
-            },
-          },
-        },
-      },
-      responses: {
-        '201': {
-          description: 'Invite created successfully',
-        },
-        '404': {
-          description: 'User or org not found',
-        },
-      },
-    });
-  }
-}
+ * Command for inviting a user to an org. Returns the created invite.
+ */
+export const InviteCommand = defineCommand({
+  name: 'InviteCommand',
+  description: 'Invite',
+  tags: ['Invite'],
+  method: 'post',
+  path: '/invite',
+  body: InviteRequest,
+  requestType: MediaType.INVITE_REQUEST,
+  response: Invite,
+  responseType: MediaType.INVITE_RESPONSE,
+  responses: {
+    201: 'Invite created successfully',
+    404: 'User or org not found',
+  },
+});
+export type InviteCommand = InstanceType<typeof InviteCommand>;
+
+//-----------------------------------------------------------------------------
+// List
+//-----------------------------------------------------------------------------
+
+export const ListInvitesRequest = z
+  .object({
+    orgId: OrgField.id,
+    status: InviteStatus.optional(),
+    next: z.string().optional(),
+  })
+  .openapi('ListInvitesRequest');
+
+export type IListInvitesRequest = z.infer<typeof ListInvitesRequest>;
+
+export const ListInvitesResponse = z
+  .object({
+    items: z.array(Invite),
+    next: z.string().optional(),
+  })
+  .openapi('ListInvitesResponse');
+
+export type IListInvitesResponse = z.infer<typeof ListInvitesResponse>;
+
+/**
+ * Command for listing the invites of an org, optionally only those with the given status.
+ */
+export const ListInvitesCommand = defineCommand({
+  name: 'ListInvitesCommand',
+  description: 'List Invites',
+  tags: ['Invite'],
+  method: 'get',
+  path: '/orgs/{orgId}/invites',
+  params: ListInvitesRequest.pick({orgId: true}),
+  query: ListInvitesRequest.pick({status: true, next: true}),
+  response: ListInvitesResponse,
+  responseType: MediaType.LIST_INVITES_RESPONSE,
+  responses: {
+    200: 'Invites listed successfully',
+    404: 'Org does not exist',
+  },
+});
+export type ListInvitesCommand = InstanceType<typeof ListInvitesCommand>;
+
+//-----------------------------------------------------------------------------
+// Resend
+//-----------------------------------------------------------------------------
+
+export const InviteIdRequest = z
+  .object({
+    id: InviteField.id,
+  })
+  .openapi('InviteIdRequest');
+
+export type IInviteIdRequest = z.infer<typeof InviteIdRequest>;
+
+/**
+ * Command for sending a pending invite again. The expiry of the invite is extended.
+ */
+export const ResendInviteCommand = defineCommand({
+  name: 'ResendInviteCommand',
+  description: 'Resend Invite',
+  tags: ['Invite'],
+  method: 'post',
+  path: '/invites/{id}/resend',
+  params: InviteIdRequest,
+  response: Invite,
+  responseType: MediaType.INVITE_RESPONSE,
+  responses: {
+    200: 'Invite resent successfully',
+    404: 'Invite does not exist',
+    409: 'Invite is not pending',
+  },
+});
+export type ResendInviteCommand = InstanceType<typeof ResendInviteCommand>;
+
+//-----------------------------------------------------------------------------
+// Revoke
+//-----------------------------------------------------------------------------
+
+/**
+ * Command for revoking a pending invite so it can no longer be accepted.
+ */
+export const RevokeInviteCommand = defineCommand({
+  name: 'RevokeInviteCommand',
+  description: 'Revoke Invite',
+  tags: ['Invite'],
+  method: 'post',
+  path: '/invites/{id}/revoke',
+  params: InviteIdRequest,
+  responses: {
+    204: 'Invite revoked successfully',
+    404: 'Invite does not exist',
+    409: 'Invite is not pending',
+  },
+});
+export type RevokeInviteCommand = InstanceType<typeof RevokeInviteCommand>;
+
+//-----------------------------------------------------------------------------
+// Accept
+//-----------------------------------------------------------------------------
+
+/**
+ * Command for accepting an invite as the invited user. Returns the membership granted by the invite.
+ */
+export const AcceptInviteCommand = defineCommand({
+  name: 'AcceptInviteCommand',
+  description: 'Accept Invite',
+  tags: ['Invite'],
+  method: 'post',
+  path: '/invites/{id}/accept',
+  params: InviteIdRequest,
+  response: OrgMember,
+  responseType: MediaType.GET_ORG_MEMBER_RESPONSE,
+  responses: {
+    200: 'Invite accepted successfully',
+    403: 'Invite was sent to another user',
+    404: 'Invite does not exist',
+    409: 'Invite is not pending',
+  },
+});
+export type AcceptInviteCommand = InstanceType<typeof AcceptInviteCommand>;
@@ -1,13 +1,25 @@
 export const MediaType = {
   ERROR_RESPONSE: 'application/vnd.xcorplatform.error-res.v1+json',
   INVITE_REQUEST: 'application/vnd.xcorplatform.invite-req.v1+json',
+  INVITE_RESPONSE: 'application/vnd.xcorplatform.invite-res.v1+json',
+  LIST_INVITES_RESPONSE:
+    'application/vnd.xcorplatform.list-invites-res.v1+json',
   USERINFO_RESPONSE: 'application/vnd.xcorplatform.userinfo-res.v1+json',
   // App
   CREATE_APP_REQUEST: 'application/vnd.xcorplatform.create-app-req.v1+json',
+  UPDATE_APP_REQUEST: 'application/vnd.xcorplatform.update-app-req.v1+json',
   GET_APP_RESPONSE: 'application/vnd.xcorplatform.get-app-res.v1+json',
+  FIND_APP_RESPONSE: 'application/vnd.xcorplatform.find-app-res.v1+json',
   // Org
   CREATE_ORG_REQUEST: 'application/vnd.xcorplatform.create-org-req.v1+json',
   UPDATE_ORG_REQUEST: 'application/vnd.xcorplatform.update-org-req.v1+json',
   GET_ORG_RESPONSE: 'application/vnd.xcorplatform.get-org-res.v1+json',
   FIND_ORG_RESPONSE: 'application/vnd.nxcorplatform.find-org-res.v1+json',
+  // Member
+  LIST_ORG_MEMBERS_RESPONSE:
+    'application/vnd.xcorplatform.list-org-members-res.v1+json',
+  GET_ORG_MEMBER_RESPONSE:
+    'application/vnd.xcorplatform.get-org-member-res.v1+json',
+  UPDATE_ORG_MEMBER_ROLES_REQUEST:
+    'application/vnd.xcorplatform.update-org-member-roles-req.v1+json',
 };
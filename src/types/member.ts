@@ -0,0 +1,202 @@
+import {z} from './command.js';
+import {defineCommand} from './definition.js';
+import {MediaType} from './media-types.js';
+import {OrgField} from './org.js';
+
+/**
+ * The fields of an org member shared by the member schemas.
+ */
+export const MemberField = {
+  userId: z.string().min(1),
+  email: z.string().email(),
+  name: z.string(),
+  roles: z.array(z.string().min(1)),
+};
+
+/**
+ * Schema for a user's membership of an org.
+ */
+export const OrgMember = z
+  .object({
+    orgId: OrgField.id,
+    userId: MemberField.userId,
+    email: MemberField.email,
+    name: MemberField.name,
+    roles: MemberField.roles,
+  })
+  .openapi('OrgMember');
+
+/**
+ * Type for org members.
+ */
+export type IOrgMember = z.infer<typeof OrgMember>;
+
+//-----------------------------------------------------------------------------
+// List
+//-----------------------------------------------------------------------------
+
+/**
+ * Schema for list org members requests. Pass the next cursor of a previous response to get the next page.
+ */
+export const ListOrgMembersRequest = z
+  .object({
+    orgId: OrgField.id,
+    next: z.string().optional(),
+  })
+  .openapi('ListOrgMembersRequest');
+
+/**
+ * Type for list org members requests.
+ */
+export type IListOrgMembersRequest = z.infer<typeof ListOrgMembersRequest>;
+
+/**
+ * Schema for list org members responses. The next cursor is present if there are more members.
+ */
+export const ListOrgMembersResponse = z
+  .object({
+    items: z.array(OrgMember),
+    next: z.string().optional(),
+  })
+  .openapi('ListOrgMembersResponse');
+
+/**
+ * Type for list org members responses.
+ */
+export type IListOrgMembersResponse = z.infer<typeof ListOrgMembersResponse>;
+
+/**
+ * Command for listing a page of the members of an org.
+ */
+export const ListOrgMembersCommand = defineCommand({
+  name: 'ListOrgMembersCommand',
+  description: 'List Org Members',
+  tags: ['Member'],
+  method: 'get',
+  path: '/orgs/{orgId}/members',
+  params: ListOrgMembersRequest.pick({orgId: true}),
+  query: ListOrgMembersRequest.pick({next: true}),
+  response: ListOrgMembersResponse,
+  responseType: MediaType.LIST_ORG_MEMBERS_RESPONSE,
+  responses: {
+    200: 'Org members listed successfully',
+    404: 'Org does not exist',
+  },
+});
+export type ListOrgMembersCommand = InstanceType<typeof ListOrgMembersCommand>;
+
+//-----------------------------------------------------------------------------
+// Get
+//-----------------------------------------------------------------------------
+
+/**
+ * Schema for get org member requests.
+ */
+export const GetOrgMemberRequest = z
+  .object({
+    orgId: OrgField.id,
+    userId: MemberField.userId,
+  })
+  .openapi('GetOrgMemberRequest');
+
+/**
+ * Type for get org member requests.
+ */
+export type IGetOrgMemberRequest = z.infer<typeof GetOrgMemberRequest>;
+
+/**
+ * Command for getting a member of an org.
+ */
+export const GetOrgMemberCommand = defineCommand({
+  name: 'GetOrgMemberCommand',
+  description: 'Get Org Member',
+  tags: ['Member'],
+  method: 'get',
+  path: '/orgs/{orgId}/members/{userId}',
+  params: GetOrgMemberRequest,
+  response: OrgMember,
+  responseType: MediaType.GET_ORG_MEMBER_RESPONSE,
+  responses: {
+    200: 'Org member found successfully',
+    404: 'Org or member does not exist',
+  },
+});
+export type GetOrgMemberCommand = InstanceType<typeof GetOrgMemberCommand>;
+
+//-----------------------------------------------------------------------------
+// Update Roles
+//-----------------------------------------------------------------------------
+
+/**
+ * Schema for update org member roles requests. The roles replace all existing roles of the member.
+ */
+export const UpdateOrgMemberRolesRequest = z
+  .object({
+    orgId: OrgField.id,
+    userId: MemberField.userId,
+    roles: MemberField.roles,
+  })
+  .openapi('UpdateOrgMemberRolesRequest');
+
+/**
+ * Type for update org member roles requests.
+ */
+export type IUpdateOrgMemberRolesRequest = z.infer<
+  typeof UpdateOrgMemberRolesRequest
+>;
+
+/**
+ * Command for replacing the roles of a member of an org.
+ */
+export const UpdateOrgMemberRolesCommand = defineCommand({
+  name: 'UpdateOrgMemberRolesCommand',
+  description: 'Replace the roles of an Org Member',
+  tags: ['Member'],
+  method: 'put',
+  path: '/orgs/{orgId}/members/{userId}/roles',
+  params: GetOrgMemberRequest.pick({orgId: true, userId: true}),
+  body: UpdateOrgMemberRolesRequest.pick({roles: true}),
+  requestType: MediaType.UPDATE_ORG_MEMBER_ROLES_REQUEST,
+  responses: {
+    204: 'Org member roles updated successfully',
+    404: 'Org or member does not exist',
+  },
+});
+export type UpdateOrgMemberRolesCommand = InstanceType<
+  typeof UpdateOrgMemberRolesCommand
+>;
+
+//-----------------------------------------------------------------------------
+// Remove
+//-----------------------------------------------------------------------------
+
+/**
+ * Schema for remove org member requests.
+ */
+export const RemoveOrgMemberRequest = GetOrgMemberRequest.extend({}).openapi(
+  'RemoveOrgMemberRequest'
+);
+
+/**
+ * Type for remove org member requests.
+ */
+export type IRemoveOrgMemberRequest = z.infer<typeof RemoveOrgMemberRequest>;
+
+/**
+ * Command for removing a member from an org.
+ */
+export const RemoveOrgMemberCommand = defineCommand({
+  name: 'RemoveOrgMemberCommand',
+  description: 'Remove Org Member',
+  tags: ['Member'],
+  method: 'delete',
+  path: '/orgs/{orgId}/members/{userId}',
+  params: RemoveOrgMemberRequest,
+  responses: {
+    204: 'Org member removed successfully',
+    404: 'Org or member does not exist',
+  },
+});
+export type RemoveOrgMemberCommand = InstanceType<
+  typeof RemoveOrgMemberCommand
+>;
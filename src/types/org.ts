@@ -1,6 +1,6 @@
-import {CommandRequest, z} from './command';
-import {OpenAPIRegistry} from '@asteasolutions/zod-to-openapi';
-import {MediaType} from './media-types';
+import {z} from './command.js';
+import {defineCommand} from './definition.js';
+import {MediaType} from './media-types.js';
 
 export const OrgConstraint = {
   ID_ALLOWED_CHARS: '0-9a-z-',
@@ -43,39 +43,20 @@ export const CreateOrgRequest = z
   .openapi('CreateOrgRequest');
 
 export type ICreateOrgRequest = z.infer<typeof CreateOrgRequest>;
-export class CreateOrgCommand extends CommandRequest<ICreateOrgRequest, void> {
-  constructor(readonly data: ICreateOrgRequest) {
-    super({
-      method: 'post',
-      path: '/orgs',
-      data,
-      requestType: MediaType.CREATE_ORG_REQUEST,
-    });
-  }
-
-  static register(registry: OpenAPIRegistry) {
-    registry.registerPath({
-      description: 'Create Org',
-      tags: ['Org'],
-      method: 'post',
-      path: '/orgs',
-      request: {
-        body: {
-          content: {
-            [MediaType.CREATE_ORG_REQUEST]: {
-              schema: CreateOrgRequest,
-            },
-          },
-        },
-      },
-      responses: {
-        '201': {
-          description: 'Org created successfully',
-        },
-      },
-    });
-  }
-}
+export const CreateOrgCommand = defineCommand({
+  name: 'CreateOrgCommand',
+  description: 'Create Org',
+  tags: ['Org'],
+  method: 'post',
+  path: '/orgs',
+  body: CreateOrgRequest,
+  requestType: MediaType.CREATE_ORG_REQUEST,
+  responses: {
+    201: 'Org created successfully',
+    409: 'Org already exists',
+  },
+});
+export type CreateOrgCommand = InstanceType<typeof CreateOrgCommand>;
 
 //-----------------------------------------------------------------------------
 // Update
@@ -87,40 +68,22 @@ export const UpdateOrgRequest = CreateOrgRequest.extend({}).openapi(
 
 export type IUpdateOrgRequest = z.infer<typeof UpdateOrgRequest>;
 
-export class UpdateOrgCommand extends CommandRequest<IUpdateOrgRequest, void> {
-  constructor(readonly data: IUpdateOrgRequest) {
-    super({
-      method: 'put',
-      path: `/orgs/${data.id}`,
-      data,
-      requestType: MediaType.UPDATE_ORG_REQUEST,
-    });
-  }
-
-  static register(registry: OpenAPIRegistry) {
-    registry.registerPath({
-      description: 'Update Org',
-      tags: ['Org'],
-      method: 'put',
-      path: '/orgs/{id}',
-      request: {
-        params: z.object({id: OrgField.id}),
-        body: {
-          content: {
-            [MediaType.UPDATE_ORG_REQUEST]: {
-              schema: UpdateOrgRequest,
-            },
-          },
-        },
-      },
-      responses: {
-        '204': {
-          description: 'Org updated successfully',
-        },
-      },
-    });
-  }
-}
+export const UpdateOrgCommand = defineCommand({
+  name: 'UpdateOrgCommand',
+  description: 'Update Org',
+  tags: ['Org'],
+  method: 'put',
+  path: '/orgs/{id}',
+  params: z.object({id: OrgField.id}),
+  body: UpdateOrgRequest,
+  requestType: MediaType.UPDATE_ORG_REQUEST,
+  conditional: true,
+  responses: {
+    204: 'Org updated successfully',
+    404: 'Org does not exist',
+  },
+});
+export type UpdateOrgCommand = InstanceType<typeof UpdateOrgCommand>;
 
 //-----------------------------------------------------------------------------
 // Get
@@ -143,41 +106,22 @@ export const GetOrgResponse = z
 
 export type IGetOrgResponse = z.infer<typeof GetOrgResponse>;
 
-export class GetOrgCommand extends CommandRequest<
-  IGetOrgRequest,
-  IGetOrgResponse
-> {
-  constructor(readonly data: IGetOrgRequest) {
-    super({
-      method: 'get',
-      path: `/orgs/${data.id}`,
-      data,
-      responseType: MediaType.GET_ORG_RESPONSE,
-    });
-  }
-
-  static register(registry: OpenAPIRegistry) {
-    registry.registerPath({
-      description: 'Get Org',
-      tags: ['Org'],
-      method: 'get',
-      path: '/orgs/{id}',
-      request: {
-        params: z.object({id: OrgField.id}),
-      },
-      responses: {
-        '200': {
-          description: 'Org found successfully',
-          content: {
-            [MediaType.GET_ORG_RESPONSE]: {
-              schema: GetOrgResponse,
-            },
-          },
-        },
-      },
-    });
-  }
-}
+export const GetOrgCommand = defineCommand({
+  name: 'GetOrgCommand',
+  description: 'Get Org',
+  tags: ['Org'],
+  method: 'get',
+  path: '/orgs/{id}',
+  params: GetOrgRequest,
+  response: GetOrgResponse,
+  responseType: MediaType.GET_ORG_RESPONSE,
+  conditional: true,
+  responses: {
+    200: 'Org found successfully',
+    404: 'Org does not exist',
+  },
+});
+export type GetOrgCommand = InstanceType<typeof GetOrgCommand>;
 
 //-----------------------------------------------------------------------------
 // Find
@@ -188,6 +132,7 @@ export const FindOrgRequest = z
     orgId: OrgField.id,
     idStartsWith: OrgField.id.optional(),
     nameStartsWith: OrgField.name.optional(),
+    next: z.string().optional(),
   })
   .openapi('FindOrgRequest');
 
@@ -207,41 +152,20 @@ export const FindOrgResponse = z
 
 export type IFindOrgResponse = z.infer<typeof FindOrgResponse>;
 
-export class FindOrgCommand extends CommandRequest<
-  IFindOrgRequest,
-  IFindOrgResponse
-> {
-  constructor(readonly data: IFindOrgRequest) {
-    super({
-      method: 'get',
-      path: '/orgs',
-      data,
-      responseType: MediaType.FIND_ORG_RESPONSE,
-    });
-  }
-
-  static register(registry: OpenAPIRegistry) {
-    registry.registerPath({
-      description: 'Find Orgs',
-      tags: ['Org'],
-      method: 'get',
-      path: '/orgs',
-      request: {
-        query: FindOrgRequest,
-      },
-      responses: {
-        '200': {
-          description: 'Orgs found successfully',
-          content: {
-            [MediaType.FIND_ORG_RESPONSE]: {
-              schema: FindOrgResponse,
-            },
-          },
-        },
-      },
-    });
-  }
-}
+export const FindOrgCommand = defineCommand({
+  name: 'FindOrgCommand',
+  description: 'Find Orgs',
+  tags: ['Org'],
+  method: 'get',
+  path: '/orgs',
+  query: FindOrgRequest,
+  response: FindOrgResponse,
+  responseType: MediaType.FIND_ORG_RESPONSE,
+  responses: {
+    200: 'Orgs found successfully',
+  },
+});
+export type FindOrgCommand = InstanceType<typeof FindOrgCommand>;
 
 //-----------------------------------------------------------------------------
 // Delete
@@ -255,29 +179,17 @@ export const DeleteOrgRequest = z
 
 export type IDeleteOrgRequest = z.infer<typeof DeleteOrgRequest>;
 
-export class DeleteOrgCommand extends CommandRequest<IDeleteOrgRequest, void> {
-  constructor(readonly data: IDeleteOrgRequest) {
-    super({
-      method: 'delete',
-      path: `/orgs/${data.id}`,
-      data,
-    });
-  }
-
-  static register(registry: OpenAPIRegistry) {
-    registry.registerPath({
-      description: 'Delete Org',
-      tags: ['Org'],
-      method: 'delete',
-      path: '/orgs/{id}',
-      request: {
-        params: z.object({id: OrgField.id}),
-      },
-      responses: {
-        '204': {
-          description: 'Org deleted successfully',
-        },
-      },
-    });
-  }
-}
+export const DeleteOrgCommand = defineCommand({
+  name: 'DeleteOrgCommand',
+  description: 'Delete Org',
+  tags: ['Org'],
+  method: 'delete',
+  path: '/orgs/{id}',
+  params: DeleteOrgRequest,
+  conditional: true,
+  responses: {
+    204: 'Org deleted successfully',
+    404: 'Org does not exist',
+  },
+});
+export type DeleteOrgCommand = InstanceType<typeof DeleteOrgCommand>;
@@ -1,6 +1,6 @@
-import {CommandRequest, z} from './command';
-import {OpenAPIRegistry} from '@asteasolutions/zod-to-openapi';
-import {MediaType} from './media-types';
+import {z} from './command.js';
+import {defineCommand} from './definition.js';
+import {MediaType} from './media-types.js';
 
 /**
  * Schema for user information response.
@@ -21,7 +21,7 @@ export const UserInfoResponse = z
       })
     ),
   })
-  .openapi('InviteRequest');
+  .openapi('UserInfoResponse');
 
 /**
  * Type for user information response.
@@ -31,44 +31,20 @@ export type IUserInfoResponse = z.infer<typeof UserInfoResponse>;
 /**
  * Command for retrieving user information.
  */
-export class UserInfoCommand extends CommandRequest<void, IUserInfoResponse> {
-  constructor(readonly data: void) {
-    super({
-      method: 'get',
-      path: '/userinfo',
-      requestType: MediaType.USERINFO_RESPONSE,
-    });
-  }
-
-  /**
-   * Register the user information command with the given OpenAPI registry.
-   *
-   * @param registry
-   */
-  static register(registry: OpenAPIRegistry) {
-    registry.registerPath({
-      description: 'UserInfo',
-      tags: ['UserInfo'],
-      method: 'get',
-      path: '/userinfo',
-      request: {
-        headers: z.object({
-          authorization: z.string(),
-        }),
-      },
-      responses: {
-        '200': {
-          description: 'UserInfo retrieved successfully',
-          content: {
-            [MediaType.USERINFO_RESPONSE]: {
-              schema: UserInfoResponse,
-            },
-          },
-        },
-        '404': {
-          description: 'UserInfo not found',
-        },
-      },
-    });
-  }
-}
+export const UserInfoCommand = defineCommand({
+  name: 'UserInfoCommand',
+  description: 'UserInfo',
+  tags: ['UserInfo'],
+  method: 'get',
+  path: '/userinfo',
+  headers: z.object({
+    authorization: z.string(),
+  }),
+  response: UserInfoResponse,
+  responseType: MediaType.USERINFO_RESPONSE,
+  responses: {
+    200: 'UserInfo retrieved successfully',
+    404: 'UserInfo not found',
+  },
+});
+export type UserInfoCommand = InstanceType<typeof UserInfoCommand>;
@@ -1,5 +1,552 @@
-import {XcorPlatformClient} from './xcorplatform-client';
+import * as http from 'node:http';
+import {AddressInfo} from 'node:net';
+import {URL} from 'node:url';
+import * as logging from '@nr1e/logging';
+import * as yaml from 'js-yaml';
+import {XcorPlatformClient} from './xcorplatform-client.js';
+import {ClientCredentials} from './client-credentials.js';
+import {
+  AppExistsCommand,
+  CommandRequest,
+  commandRegistry,
+  CreateOrgCommand,
+  DeleteAppCommand,
+  FindAppCommand,
+  FindOrgCommand,
+  GetOrgCommand,
+  MediaType,
+  UpdateAppCommand,
+} from './types/index.js';
+import {openapiDocument} from './openapi.js';
+import {
+  AuthenticationError,
+  CancelledError,
+  NetworkError,
+  NotFoundError,
+  RequestValidationError,
+  ResponseValidationError,
+  TimeoutError,
+} from './errors.js';
+import {
+  CallbackTokenProvider,
+  RefreshTokenProvider,
+  StaticTokenProvider,
+} from './token-providers.js';
+import {MockTransport} from './testing/index.js';
+
+let server: http.Server;
+let baseUrl: string;
+let body: unknown;
+let requests = 0;
+let handler: http.RequestListener;
+
+beforeAll(async () => {
+  await logging.initialize({svc: 'xcorplatform-client', level: 'silent'});
+  server = http.createServer((req, res) => {
+    requests++;
+    handler(req, res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+beforeEach(() => {
+  handler = (req, res) => {
+    res.writeHead(200, {'content-type': MediaType.GET_ORG_RESPONSE});
+    res.end(JSON.stringify(body));
+  };
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
 
 test('OpenAPI Generator', () => {
   console.log(XcorPlatformClient.openapiYaml());
 });
+
+test('OpenAPI document covers every registered command', () => {
+  const document = yaml.load(XcorPlatformClient.openapiYaml()) as {
+    paths: Record<string, Record<string, {operationId: string}>>;
+  };
+  const operations = Object.values(document.paths).flatMap(path =>
+    Object.values(path).map(operation => operation.operationId)
+  );
+  expect(operations.sort()).toEqual(
+    commandRegistry
+      .all()
+      .map(command => command.operationId)
+      .sort()
+  );
+  expect(operations).toContain('createOrg');
+  expect(operations).toContain('appExists');
+});
+
+test('Command paths are expanded from the definition', () => {
+  const command = commandRegistry.create('getOrg', {id: 'a b'});
+  expect(command).toBeInstanceOf(GetOrgCommand);
+  expect(command.props.path).toEqual('/orgs/a%20b');
+  expect(command.props.route).toEqual('/orgs/{id}');
+  expect(command.props.data).toBeUndefined();
+  const find = new FindOrgCommand({orgId: 'acme', next: 'abc'});
+  expect(find.props.data).toEqual({orgId: 'acme', next: 'abc'});
+  expect(() => commandRegistry.create('nope')).toThrow('Unknown command');
+});
+
+test('App commands send their paths, query parameters and bodies', async () => {
+  const transport = new MockTransport(() => ({
+    status: 204,
+    headers: {},
+    data: undefined,
+  }));
+  const client = new XcorPlatformClient({
+    baseUrl: 'https://api.example.com',
+    transport,
+    responseValidation: 'off',
+  });
+  const app = {id: 'portal', name: 'Portal', author: 'Acme'};
+  await client.send(new UpdateAppCommand(app));
+  await client.send(new DeleteAppCommand({id: 'portal'}));
+  await client.send(new AppExistsCommand({id: 'portal'}));
+  await client.send(
+    new FindAppCommand({idStartsWith: 'por', nameStartsWith: 'Por tal'})
+  );
+  expect(transport.requests.map(r => `${r.method} ${r.url}`)).toEqual([
+    'put https://api.example.com/apps/portal',
+    'delete https://api.example.com/apps/portal',
+    'head https://api.example.com/apps/portal',
+    'get https://api.example.com/apps?idStartsWith=por&nameStartsWith=Por%20tal',
+  ]);
+  expect(transport.requests[0].headers['content-type']).toBe(
+    MediaType.UPDATE_APP_REQUEST
+  );
+  expect(transport.requests[0].body).toEqual(app);
+  expect(transport.requests.slice(1).map(r => r.body)).toEqual([
+    undefined,
+    undefined,
+    undefined,
+  ]);
+});
+
+test('OpenAPI document covers every app operation', () => {
+  const {paths} = openapiDocument();
+  expect(Object.keys(paths?.['/apps'] ?? {}).sort()).toEqual(['get', 'post']);
+  expect(Object.keys(paths?.['/apps/{id}'] ?? {}).sort()).toEqual([
+    'delete',
+    'get',
+    'head',
+    'put',
+  ]);
+  expect(paths?.['/apps']?.get?.parameters).toContainEqual(
+    expect.objectContaining({in: 'query', name: 'idStartsWith'})
+  );
+  expect(paths?.['/apps/{id}']?.head?.operationId).toBe('appExists');
+});
+
+test('Response validation passes valid bodies', async () => {
+  body = {id: 'acme', name: 'Acme'};
+  const client = new XcorPlatformClient({baseUrl});
+  const response = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(response.data).toEqual(body);
+  expect(response.validationIssues).toBeUndefined();
+});
+
+test('Response validation warns on invalid bodies', async () => {
+  body = {id: 'acme'};
+  const client = new XcorPlatformClient({baseUrl});
+  const response = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(response.data).toEqual(body);
+  expect(response.validationIssues?.[0].path).toEqual(['name']);
+});
+
+test('Response validation throws when strict', async () => {
+  body = {id: 'acme'};
+  const client = new XcorPlatformClient({
+    baseUrl,
+    responseValidation: 'strict',
+  });
+  await expect(
+    client.send(new GetOrgCommand({id: 'acme'}))
+  ).rejects.toBeInstanceOf(ResponseValidationError);
+});
+
+test('Response validation can be disabled', async () => {
+  body = {id: 'acme'};
+  const client = new XcorPlatformClient({baseUrl, responseValidation: 'off'});
+  const response = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(response.validationIssues).toBeUndefined();
+});
+
+test('Request validation fails before sending', async () => {
+  const before = requests;
+  const client = new XcorPlatformClient({baseUrl});
+  const response = await client.send(
+    new CreateOrgCommand({id: 'Not Valid', name: 'Acme'})
+  );
+  expect(response.error).toBeInstanceOf(RequestValidationError);
+  expect(response.httpStatus).toEqual(0);
+  expect((response.error as RequestValidationError).issues).toEqual([
+    {
+      path: 'id',
+      message:
+        'may only contain lower case alphanumeric characters and hyphens',
+    },
+  ]);
+  const deleteWithData = await client.send(
+    new (class extends CommandRequest<{id: string}, void> {
+      constructor(readonly data: {id: string}) {
+        super({method: 'delete', path: '/orgs/acme', data});
+      }
+    })({id: 'acme'})
+  );
+  expect(deleteWithData.error).toBeInstanceOf(RequestValidationError);
+  expect(deleteWithData.httpStatus).toEqual(0);
+  const missingId = await client.send(new GetOrgCommand({} as {id: string}));
+  expect(missingId.error).toBeInstanceOf(RequestValidationError);
+  expect(missingId.httpStatus).toEqual(0);
+  expect((missingId.error as RequestValidationError).issues).toEqual([
+    {path: 'id', message: 'Required'},
+  ]);
+  expect(requests).toEqual(before);
+});
+
+test('Retries retryable statuses', async () => {
+  body = {id: 'acme', name: 'Acme'};
+  const before = requests;
+  let failures = 2;
+  handler = (req, res) => {
+    if (failures-- > 0) {
+      res.writeHead(503, {'retry-after': '0'});
+      res.end();
+      return;
+    }
+    res.writeHead(200, {'content-type': MediaType.GET_ORG_RESPONSE});
+    res.end(JSON.stringify(body));
+  };
+  const client = new XcorPlatformClient({baseUrl, retry: {maxAttempts: 3}});
+  const response = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(response.data).toEqual(body);
+  expect(requests - before).toEqual(3);
+});
+
+test('Does not retry post by default', async () => {
+  const before = requests;
+  handler = (req, res) => {
+    res.writeHead(503, {'retry-after': '0'});
+    res.end();
+  };
+  const client = new XcorPlatformClient({baseUrl, retry: {maxAttempts: 3}});
+  const response = await client.send(
+    new CreateOrgCommand({id: 'acme', name: 'Acme'})
+  );
+  expect(response.httpStatus).toEqual(503);
+  expect(requests - before).toEqual(1);
+});
+
+test('Paginates using the next cursor', async () => {
+  const pages: Record<string, unknown> = {
+    '': {items: [{id: 'org-a', name: 'Org A'}], next: 'b'},
+    b: {items: [{id: 'org-b', name: 'Org B'}], next: 'c'},
+    c: {items: [{id: 'org-c', name: 'Org C'}]},
+  };
+  handler = (req, res) => {
+    const url = new URL(req.url ?? '', baseUrl);
+    res.writeHead(200, {'content-type': MediaType.FIND_ORG_RESPONSE});
+    res.end(JSON.stringify(pages[url.searchParams.get('next') ?? '']));
+  };
+  const client = new XcorPlatformClient({baseUrl});
+  const command = new FindOrgCommand({orgId: 'acme'});
+  const ids: string[] = [];
+  for await (const org of client.paginate(command)) {
+    ids.push(org.id);
+  }
+  expect(ids).toEqual(['org-a', 'org-b', 'org-c']);
+  const limited = await client.paginate(command, {maxPages: 2}).toArray();
+  expect(limited.length).toEqual(2);
+  let pageCount = 0;
+  for await (const page of client.paginate(command, {maxItems: 1}).pages()) {
+    expect(page.items.length).toEqual(1);
+    pageCount++;
+  }
+  expect(pageCount).toEqual(1);
+});
+
+test('Failed responses are returned as typed errors', async () => {
+  handler = (req, res) => {
+    res.writeHead(404, {
+      'content-type': MediaType.ERROR_RESPONSE,
+      'x-request-id': 'req-1',
+    });
+    res.end(JSON.stringify({message: 'Org not found'}));
+  };
+  const client = new XcorPlatformClient({baseUrl});
+  const response = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(response.error).toBeInstanceOf(NotFoundError);
+  const error = response.error as NotFoundError;
+  expect(error.message).toEqual('Org not found');
+  expect(error.httpStatus).toEqual(404);
+  expect(error.body).toEqual({message: 'Org not found'});
+  expect(error.method).toEqual('get');
+  expect(error.path).toEqual('/orgs/acme');
+  expect(error.requestId).toEqual('req-1');
+});
+
+test('Unreachable hosts are returned as network errors', async () => {
+  const client = new XcorPlatformClient({baseUrl: 'http://127.0.0.1:1'});
+  const response = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(response.error).toBeInstanceOf(NetworkError);
+  expect(response.httpStatus).toEqual(0);
+});
+
+test('Execute returns data and throws typed errors', async () => {
+  body = {id: 'acme', name: 'Acme'};
+  const client = new XcorPlatformClient({baseUrl});
+  const org = await client.execute(new GetOrgCommand({id: 'acme'}));
+  expect(org.name).toEqual('Acme');
+  const result = await client.sendResult(new GetOrgCommand({id: 'acme'}));
+  expect(result.ok && result.data.name).toEqual('Acme');
+  handler = (req, res) => {
+    res.writeHead(404, {'content-type': MediaType.ERROR_RESPONSE});
+    res.end(JSON.stringify({message: 'Org not found'}));
+  };
+  await expect(
+    client.execute(new GetOrgCommand({id: 'acme'}))
+  ).rejects.toBeInstanceOf(NotFoundError);
+  const failed = await client.sendResult(new GetOrgCommand({id: 'acme'}));
+  expect(!failed.ok && failed.error).toBeInstanceOf(NotFoundError);
+});
+
+test('Resource facades wrap commands', async () => {
+  handler = (req, res) => {
+    if (req.method === 'HEAD') {
+      res.writeHead(req.url === '/apps/my-app' ? 200 : 404);
+      res.end();
+      return;
+    }
+    res.writeHead(200, {'content-type': MediaType.GET_ORG_RESPONSE});
+    res.end(JSON.stringify({id: 'acme', name: 'Acme'}));
+  };
+  const client = new XcorPlatformClient({baseUrl});
+  expect(await client.orgs.get('acme')).toEqual({id: 'acme', name: 'Acme'});
+  expect(await client.apps.exists('my-app')).toBe(true);
+  expect(await client.apps.exists('other-app')).toBe(false);
+});
+
+test('Calls can time out or be cancelled', async () => {
+  handler = (req, res) => {
+    setTimeout(() => {
+      res.writeHead(200, {'content-type': MediaType.GET_ORG_RESPONSE});
+      res.end(JSON.stringify({id: 'acme', name: 'Acme'}));
+    }, 100);
+  };
+  const client = new XcorPlatformClient({baseUrl, timeout: 10});
+  const timedOut = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(timedOut.error).toBeInstanceOf(TimeoutError);
+  const controller = new AbortController();
+  const pending = client.send(new GetOrgCommand({id: 'acme'}), {
+    timeout: 1000,
+    signal: controller.signal,
+  });
+  controller.abort();
+  const cancelled = await pending;
+  expect(cancelled.error).toBeInstanceOf(CancelledError);
+  expect(cancelled.error).not.toBeInstanceOf(TimeoutError);
+});
+
+test('Token providers supply the bearer token', async () => {
+  let authorization: string | undefined;
+  let tokenRequest = '';
+  handler = (req, res) => {
+    if (req.url === '/token') {
+      req.on('data', chunk => (tokenRequest += chunk));
+      req.on('end', () => {
+        res.writeHead(200, {'content-type': 'application/json'});
+        res.end(JSON.stringify({access_token: 'refreshed', expires_in: 3600}));
+      });
+      return;
+    }
+    authorization = req.headers.authorization;
+    res.writeHead(200, {'content-type': MediaType.GET_ORG_RESPONSE});
+    res.end(JSON.stringify({id: 'acme', name: 'Acme'}));
+  };
+  const client = new XcorPlatformClient({
+    baseUrl,
+    tokenProvider: new StaticTokenProvider('static'),
+  });
+  await client.execute(new GetOrgCommand({id: 'acme'}));
+  expect(authorization).toEqual('Bearer static');
+  client.auth(new CallbackTokenProvider(() => 'callback'));
+  await client.execute(new GetOrgCommand({id: 'acme'}));
+  expect(authorization).toEqual('Bearer callback');
+  client.auth(
+    new RefreshTokenProvider({
+      clientId: 'cli',
+      refreshToken: 'r1',
+      tokenEndpoint: `${baseUrl}/token`,
+    })
+  );
+  await client.execute(new GetOrgCommand({id: 'acme'}));
+  expect(authorization).toEqual('Bearer refreshed');
+  expect(tokenRequest).toEqual(
+    'grant_type=refresh_token&refresh_token=r1&client_id=cli'
+  );
+});
+
+test('Client credentials share token requests and re-authenticate on 401', async () => {
+  const tokenBodies: string[] = [];
+  let issued = 0;
+  let rejectNext = false;
+  handler = (req, res) => {
+    if (req.url === '/token') {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        tokenBodies.push(body);
+        res.writeHead(200, {'content-type': 'application/json'});
+        res.end(
+          JSON.stringify({access_token: `token-${++issued}`, expires_in: 3600})
+        );
+      });
+      return;
+    }
+    if (rejectNext) {
+      rejectNext = false;
+      res.writeHead(401, {'content-type': MediaType.ERROR_RESPONSE});
+      res.end(JSON.stringify({message: 'Token expired'}));
+      return;
+    }
+    res.writeHead(200, {'content-type': MediaType.GET_ORG_RESPONSE});
+    res.end(JSON.stringify({id: 'acme', name: req.headers.authorization}));
+  };
+  const credentials = new ClientCredentials({
+    clientId: 'client',
+    clientSecret: 's3cret&=',
+    tokenEndpoint: `${baseUrl}/token`,
+    scopes: ['orgs', 'apps'],
+  });
+  const client = new XcorPlatformClient({baseUrl, tokenProvider: credentials});
+  const results = await Promise.all([
+    client.execute(new GetOrgCommand({id: 'acme'})),
+    client.execute(new GetOrgCommand({id: 'acme'})),
+  ]);
+  expect(results.map(r => r.name)).toEqual([
+    'Bearer token-1',
+    'Bearer token-1',
+  ]);
+  expect(tokenBodies).toEqual([
+    'grant_type=client_credentials&client_id=client&client_secret=s3cret%26%3D&scope=orgs+apps',
+  ]);
+  rejectNext = true;
+  const org = await client.execute(new GetOrgCommand({id: 'acme'}));
+  expect(org.name).toEqual('Bearer token-2');
+  credentials.close();
+});
+
+test('Token endpoint failures are returned as authentication errors', async () => {
+  handler = (req, res) => {
+    res.writeHead(400, {'content-type': 'application/json'});
+    res.end(JSON.stringify({error: 'invalid_client'}));
+  };
+  const client = new XcorPlatformClient({
+    baseUrl,
+    authConfig: {
+      clientId: 'client',
+      clientSecret: 'wrong',
+      tokenEndpoint: `${baseUrl}/token`,
+    },
+  });
+  const response = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(response.error).toBeInstanceOf(AuthenticationError);
+  expect((response.error as AuthenticationError).oauthError).toEqual(
+    'invalid_client'
+  );
+  expect(response.httpStatus).toEqual(400);
+
+  for (const token of [{access_token: 'abc'}, {expires_in: 3600}]) {
+    handler = (req, res) => {
+      res.writeHead(200, {'content-type': 'application/json'});
+      res.end(JSON.stringify(token));
+    };
+    const invalid = await client.send(new GetOrgCommand({id: 'acme'}));
+    expect(invalid.error).toBeInstanceOf(AuthenticationError);
+    expect(invalid.error?.message).toMatch(/^Invalid token response/);
+  }
+});
+
+test('Token requests that never complete time out and are retried', async () => {
+  let tokenRequests = 0;
+  const transport = new MockTransport(request => {
+    if (request.url.endsWith('/token')) {
+      tokenRequests++;
+      return new Promise(() => {});
+    }
+    return {
+      status: 200,
+      headers: {'content-type': MediaType.GET_ORG_RESPONSE},
+      data: {id: 'acme', name: 'Acme'},
+    };
+  });
+  const credentials = new ClientCredentials({
+    clientId: 'client',
+    clientSecret: 'secret',
+    tokenEndpoint: 'https://auth.example.com/token',
+    scopes: [],
+    transport,
+    tokenRequestTimeout: 50,
+  });
+  const client = new XcorPlatformClient({
+    transport,
+    tokenProvider: credentials,
+  });
+  const responses = await Promise.all([
+    client.send(new GetOrgCommand({id: 'acme'})),
+    client.send(new GetOrgCommand({id: 'acme'})),
+  ]);
+  for (const response of responses) {
+    expect(response.error).toBeInstanceOf(AuthenticationError);
+    expect(response.error?.message).toEqual('Token request timed out');
+  }
+  expect(tokenRequests).toEqual(1);
+  const retried = await client.send(new GetOrgCommand({id: 'acme'}));
+  expect(retried.error).toBeInstanceOf(AuthenticationError);
+  expect(tokenRequests).toEqual(2);
+  credentials.close();
+});
+
+test('Middleware can change headers and short-circuit commands', async () => {
+  const transport = new MockTransport(() => ({
+    status: 200,
+    headers: {'content-type': MediaType.GET_ORG_RESPONSE},
+    data: {id: 'acme', name: 'Acme'},
+  }));
+  const seen: string[] = [];
+  const client = new XcorPlatformClient({
+    transport,
+    tokenProvider: new StaticTokenProvider('abc'),
+  })
+    .use(async (context, next) => {
+      seen.push(`first ${context.headers.authorization}`);
+      context.headers['x-tenant'] = 'acme';
+      const response = await next();
+      seen.push(`first ${response.httpStatus}`);
+      return response;
+    })
+    .use(async (context, next) => {
+      seen.push(`second ${context.headers['x-tenant']}`);
+      if (context.command instanceof FindOrgCommand) {
+        return {data: {items: []}, httpStatus: 200};
+      }
+      return next();
+    })
+    .logRequests()
+    .logResponses();
+  expect(await client.orgs.get('acme')).toEqual({id: 'acme', name: 'Acme'});
+  expect(seen).toEqual(['first Bearer abc', 'second acme', 'first 200']);
+  expect(transport.requests[0].headers).toMatchObject({
+    'x-tenant': 'acme',
+    'user-agent': 'xcorplatform-client',
+    authorization: 'Bearer abc',
+  });
+  expect(await client.orgs.find({orgId: 'acme'})).toEqual({items: []});
+  expect(transport.requests).toHaveLength(1);
+});
@@ -1,30 +1,76 @@
-import axios, {AxiosResponse} from 'axios';
-import {ClientCredentials} from './client-credentials';
-import {toError} from '@nr1e/commons/errors';
+import {ClientCredentials} from './client-credentials.js';
+import {isTokenProvider, TokenProvider} from './token-providers.js';
+import {TokenCache} from './token-cache.js';
 import {
   CommandRequest,
   CommandResponse,
-  InviteCommand,
-  UserInfoCommand,
-} from './types';
-import {
-  OpenApiGeneratorV31,
-  OpenAPIRegistry,
-} from '@asteasolutions/zod-to-openapi';
-import * as yaml from 'js-yaml';
-import {CreateAppCommand, GetAppCommand} from './types/app';
+  CommandResult,
+  ErrorResponse,
+  toCommandResult,
+} from './types/index.js';
 import * as logging from '@nr1e/logging';
+import {
+  ApiError,
+  CancelledError,
+  CircuitOpenError,
+  NetworkError,
+  NotModifiedError,
+  ResponseValidationError,
+  TimeoutError,
+  toApiError,
+} from './errors.js';
+import {parseRetryAfter, RetryPolicy, retryDelay} from './retry.js';
+import {BatchOptions, BatchResult, ResponseDataOf, runBatch} from './batch.js';
+import {CallSignal, sleep} from './cancellation.js';
+import {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitPermit,
+} from './circuit-breaker.js';
+import {RateLimitConfig, RateLimiter} from './rate-limiter.js';
+import {CachedResponse, ResponseCache} from './response-cache.js';
+import {DEFAULT_AUTH_TOKEN_URL, DEFAULT_BASE_URL} from './defaults.js';
+import {generateOpenApi} from './openapi.js';
+import {RedactionConfig} from './redaction.js';
+import {TelemetryConfig, telemetryMiddleware} from './telemetry.js';
+import {
+  authMiddleware,
+  loggingMiddleware,
+  Middleware,
+  MiddlewareContext,
+  runMiddleware,
+  userAgentMiddleware,
+} from './middleware.js';
+import {
+  PageRequest,
+  PaginatedCommand,
+  PaginateOptions,
+  Paginator,
+} from './paginator.js';
+import {
+  AppResource,
+  InviteResource,
+  MemberResource,
+  OrgResource,
+  UserResource,
+} from './resources.js';
+import {
+  AxiosTransport,
+  FetchTransport,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  normalizeHeaders,
+  TransportError,
+} from './transport.js';
 
-declare let window: unknown;
-
-const DEFAULT_AUTH_TOKEN_URL = 'https://secure.authsure.com/connect/token';
-const DEFAULT_BASE_URL = 'https://api.xcorplatform.com';
 const USER_AGENT = 'xcorplatform-client';
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-amzn-requestid'];
 
 function checkContentType(
   log: logging.Logger,
   expected: string,
-  response: AxiosResponse
+  response: HttpResponse
 ): void {
   const received = response.headers['content-type'];
   if (received === undefined) {
@@ -32,8 +78,7 @@ function checkContentType(
       .warn()
       .str('expected', expected)
       .msg('Expected content type and received none');
-  }
-  if (received !== expected) {
+  } else if (received !== expected) {
     log
       .warn()
       .str('expected', expected)
@@ -42,12 +87,28 @@ function checkContentType(
   }
 }
 
-interface IErrorMessage {
-  message?: string;
+function requestIdOf(response: HttpResponse): string | undefined {
+  return REQUEST_ID_HEADERS.map(header => response.headers[header]).find(
+    value => value !== undefined
+  );
 }
 
-function isErrorMessage(error?: IErrorMessage): error is IErrorMessage {
-  return error !== undefined && error.message !== undefined;
+/**
+ * Builds a URL from the base URL, path and query parameters. Undefined and null parameters are omitted and
+ * arrays are sent as repeated parameters.
+ */
+function buildUrl(baseUrl: string, path: string, params?: unknown): string {
+  if (typeof params !== 'object' || params === null) {
+    return `${baseUrl}${path}`;
+  }
+  const query = Object.entries(params)
+    .flatMap(([key, value]) =>
+      (Array.isArray(value) ? value : [value])
+        .filter(v => v !== undefined && v !== null)
+        .map(v => `${encodeURIComponent(key)}=${encodeURIComponent(String(v))}`)
+    )
+    .join('&');
+  return query ? `${baseUrl}${path}?${query}` : `${baseUrl}${path}`;
 }
 
 /**
@@ -58,15 +119,90 @@ export interface AuthConfig {
   readonly clientSecret: string;
   readonly tokenEndpoint?: string;
   readonly scopes?: string[];
+  /**
+   * Shares tokens between clients, processes or cold starts.
+   */
+  readonly tokenCache?: TokenCache;
+  /**
+   * The number of milliseconds a token request may take before it fails. Default is 30000.
+   */
+  readonly tokenRequestTimeout?: number;
 }
 
+/**
+ * Controls what happens when a response body does not match the response schema of a command.
+ *
+ * - strict: a ResponseValidationError is thrown
+ * - warn: a warning is logged and the issues are returned on the CommandResponse
+ * - off: response bodies are not validated
+ */
+export type ResponseValidationMode = 'strict' | 'warn' | 'off';
+
 /**
  * XcorPlatformClientConfig is used to configure the XcorPlatformClient.
  */
 export interface XcorPlatformClientConfig {
   readonly baseUrl?: string;
   readonly authConfig?: AuthConfig;
+  /**
+   * Supplies the bearer token sent with each request. Takes precedence over authConfig.
+   */
+  readonly tokenProvider?: TokenProvider;
   readonly log?: logging.Logger;
+  /**
+   * How response bodies are validated against the command response schema. Default is warn.
+   */
+  readonly responseValidation?: ResponseValidationMode;
+  /**
+   * How failed requests are retried. If not set, requests are attempted once.
+   */
+  readonly retry?: RetryPolicy;
+  /**
+   * Limits how fast requests are sent by this client, including retries. If not set, requests are not limited.
+   */
+  readonly rateLimit?: RateLimitConfig;
+  /**
+   * Fails calls fast while the API is failing. If not set, every call is sent.
+   */
+  readonly circuitBreaker?: CircuitBreakerConfig;
+  /**
+   * Stores the responses of get commands that return an ETag or Last-Modified. Later gets of the same URL are
+   * sent with If-None-Match or If-Modified-Since and a 304 is served from the cache. Nothing is cached by default.
+   */
+  readonly responseCache?: ResponseCache;
+  /**
+   * The default number of milliseconds a call may take before it is aborted, including token requests and
+   * retries. If not set, calls do not time out.
+   */
+  readonly timeout?: number;
+  /**
+   * What is redacted from headers and bodies when requests and responses are logged. Default redacts
+   * credentials, secrets and emails.
+   */
+  readonly redaction?: RedactionConfig;
+  /**
+   * Traces commands and token requests and records command metrics. Nothing is recorded by default.
+   */
+  readonly telemetry?: TelemetryConfig;
+  /**
+   * Sends HTTP requests to the API and the token endpoint. Either a transport or axios or fetch to use the
+   * built-in AxiosTransport or FetchTransport. Default is axios.
+   */
+  readonly transport?: HttpTransport | 'axios' | 'fetch';
+}
+
+/**
+ * Options that apply to a single call to the Xcor Platform API.
+ */
+export interface SendOptions {
+  /**
+   * The number of milliseconds the call may take before it is aborted. Overrides the client default.
+   */
+  readonly timeout?: number;
+  /**
+   * A signal used to cancel the call.
+   */
+  readonly signal?: AbortSignal;
 }
 
 /**
@@ -74,59 +210,151 @@ export interface XcorPlatformClientConfig {
  */
 export class XcorPlatformClient {
   readonly baseUrl: string;
-  protected client = axios.create();
-  protected logErrorResponses = false;
-  protected clientCredentials?: ClientCredentials;
+  protected transport: HttpTransport;
+  protected logRequestsEnabled = false;
+  protected logResponsesEnabled = false;
+  protected middleware: Middleware[];
+  protected logging: Middleware;
+  protected tokenProvider?: TokenProvider;
   protected log: logging.Logger;
+  protected responseValidation: ResponseValidationMode;
+  protected retryPolicy?: RetryPolicy;
+  protected timeout?: number;
+  protected telemetry?: TelemetryConfig;
+  protected responseCache?: ResponseCache;
+
+  /**
+   * Limits how fast requests are sent if rateLimit is configured. Its status can be used in health checks.
+   */
+  readonly rateLimiter?: RateLimiter;
+
+  /**
+   * Fails calls fast while the API is failing if circuitBreaker is configured. Its status can be used in health
+   * checks.
+   */
+  readonly circuitBreaker?: CircuitBreaker;
+
+  /**
+   * Operations on orgs.
+   */
+  readonly orgs = new OrgResource(this);
+
+  /**
+   * Operations on apps.
+   */
+  readonly apps = new AppResource(this);
+
+  /**
+   * Operations on users.
+   */
+  readonly users = new UserResource(this);
+
+  /**
+   * Operations on invites.
+   */
+  readonly invites = new InviteResource(this);
+
+  /**
+   * Operations on the members of orgs.
+   */
+  readonly members = new MemberResource(this);
 
   constructor(props?: XcorPlatformClientConfig) {
     this.log = logging.getLogger('xcorplatform-client', props?.log);
+    this.telemetry = props?.telemetry;
+    this.middleware = [
+      userAgentMiddleware(USER_AGENT),
+      authMiddleware(() => this.tokenProvider, this.log),
+    ];
+    if (this.telemetry?.tracer || this.telemetry?.meter) {
+      this.middleware.unshift(telemetryMiddleware(this.telemetry));
+    }
+    this.logging = loggingMiddleware(
+      this.log,
+      () => ({
+        requests: this.logRequestsEnabled,
+        responses: this.logResponsesEnabled,
+      }),
+      props?.redaction
+    );
     this.baseUrl = props?.baseUrl ?? DEFAULT_BASE_URL;
-    // Don't set the user-agent in the browser
-    if (typeof window === 'undefined') {
-      this.client.interceptors.request.use(
-        config => {
-          config.headers['user-agent'] = USER_AGENT;
-          return config;
+    this.responseValidation = props?.responseValidation ?? 'warn';
+    this.retryPolicy = props?.retry;
+    this.timeout = props?.timeout;
+    this.responseCache = props?.responseCache;
+    if (props?.rateLimit) {
+      this.rateLimiter = new RateLimiter(props.rateLimit);
+    }
+    if (props?.circuitBreaker) {
+      const onStateChange = props.circuitBreaker.onStateChange;
+      this.circuitBreaker = new CircuitBreaker({
+        ...props.circuitBreaker,
+        onStateChange: (state, previous) => {
+          this.log
+            .warn()
+            .str('state', state)
+            .str('previous', previous)
+            .msg('Circuit breaker changed state');
+          onStateChange?.(state, previous);
         },
-        error => {
-          return Promise.reject(error);
-        }
-      );
+      });
     }
-    if (props?.authConfig) {
+    const transport = props?.transport ?? 'axios';
+    this.transport =
+      transport === 'fetch'
+        ? new FetchTransport()
+        : transport === 'axios'
+          ? new AxiosTransport()
+          : transport;
+    if (props?.tokenProvider) {
+      this.auth(props.tokenProvider);
+    } else if (props?.authConfig) {
       this.auth(props.authConfig);
     }
   }
 
   /**
-   * Configure the client to use the client credentials grant type.
+   * Configure how the client obtains the bearer token sent with each request. An AuthConfig configures the
+   * client credentials grant type. Any previously configured provider is closed.
    *
-   * @param config The configuration for the client credentials grant type.
+   * @param config The configuration for the client credentials grant type or a token provider.
    */
-  auth(config: AuthConfig): XcorPlatformClient {
-    this.clientCredentials = new ClientCredentials({
+  auth(config: AuthConfig | TokenProvider): XcorPlatformClient {
+    this.tokenProvider?.close?.();
+    if (isTokenProvider(config)) {
+      this.tokenProvider = config;
+      return this;
+    }
+    this.tokenProvider = new ClientCredentials({
       clientId: config.clientId,
       clientSecret: config.clientSecret,
       tokenEndpoint: config.tokenEndpoint ?? DEFAULT_AUTH_TOKEN_URL,
       scopes: config.scopes ?? [],
+      cache: config.tokenCache,
+      tokenRequestTimeout: config.tokenRequestTimeout,
+      transport: this.transport,
+      tracer: this.telemetry?.tracer,
     });
     return this;
   }
 
+  /**
+   * Add a middleware to the chain run for every command sent. Middleware run in the order they are added, after
+   * the built-in user-agent and auth middleware and before the built-in logging middleware, so they see the
+   * authorization header and their changes are logged.
+   *
+   * @param middleware The middleware to add.
+   */
+  use(middleware: Middleware): XcorPlatformClient {
+    this.middleware.push(middleware);
+    return this;
+  }
+
   /**
    * Configures the client to log requests.
    */
   logRequests(): XcorPlatformClient {
-    this.client.interceptors.request.use(
-      config => {
-        this.log.info().unknown('request', config).send();
-        return config;
-      },
-      error => {
-        return Promise.reject(error);
-      }
-    );
+    this.logRequestsEnabled = true;
     return this;
   }
 
@@ -134,34 +362,34 @@ export class XcorPlatformClient {
    * Configures the client to log responses.
    */
   logResponses(): XcorPlatformClient {
-    this.client.interceptors.response.use(
-      config => {
-        this.log.info().unknown('response', config).send();
-        return config;
-      },
-      error => {
-        return Promise.reject(error);
-      }
-    );
-    this.logErrorResponses = true;
+    this.logResponsesEnabled = true;
     return this;
   }
 
-  protected processError(err: unknown): [Error, number, string] {
-    if (axios.isAxiosError(err)) {
-      if (err.response) {
-        if (this.logErrorResponses) {
-          this.log.error().err(err).msg('Error response');
-        }
-        const message = err.response.data.message;
-        return [
-          toError(err.response.status, message),
-          err.response.status,
-          err.response.headers['content-type'],
-        ];
-      }
+  /**
+   * Converts an error thrown while making a request into a typed ApiError. Errors that did not come from the
+   * transport are re-thrown.
+   *
+   * @param err The error thrown while making the request.
+   * @param method The HTTP method of the request.
+   * @param path The path of the request.
+   */
+  protected processError(
+    err: unknown,
+    method: string,
+    path: string
+  ): [Error, number, string | undefined] {
+    if (err instanceof ApiError) {
+      return [err, err.httpStatus, undefined];
+    }
+    if (err instanceof TransportError) {
+      return [
+        new NetworkError({method, path}, err.code, err.message),
+        0,
+        undefined,
+      ];
     }
-    // If not an HttpError, we re-throw the error
+    // If not a transport error, we re-throw the error
     if (err instanceof Error) {
       throw err;
     } else if (typeof err === 'object' && err !== null && 'toString' in err) {
@@ -171,14 +399,50 @@ export class XcorPlatformClient {
     }
   }
 
+  /**
+   * Converts an error response into a typed ApiError using the ErrorResponse body if present.
+   *
+   * @param response The error response.
+   * @param method The HTTP method of the request.
+   * @param path The path of the request.
+   */
+  protected responseError(
+    response: HttpResponse,
+    method: string,
+    path: string
+  ): ApiError {
+    const body = ErrorResponse.safeParse(response.data);
+    return toApiError(
+      {
+        httpStatus: response.status,
+        method,
+        path,
+        body: body.success ? body.data : undefined,
+        requestId: requestIdOf(response),
+      },
+      parseRetryAfter(response.headers['retry-after'])
+    );
+  }
+
   /**
    * Send a command to the Xcor Platform API.
    *
    * @param request The command to send.
+   * @param options Options for this call such as a timeout or an AbortSignal.
    */
   async send<Req, Res>(
-    request: CommandRequest<Req, Res>
+    request: CommandRequest<Req, Res>,
+    options?: SendOptions
   ): Promise<CommandResponse<Res>> {
+    const validationError = request.validate();
+    if (validationError) {
+      return {
+        error: validationError,
+        httpStatus: validationError.httpStatus,
+      };
+    }
+    const timeout = options?.timeout ?? this.timeout;
+    const call = new CallSignal(timeout, options?.signal);
     const headers: Record<string, string> = {};
     if (request.props.requestType) {
       headers['content-type'] = request.props.requestType;
@@ -186,68 +450,382 @@ export class XcorPlatformClient {
     if (request.props.responseType) {
       headers.accept = request.props.responseType;
     }
-    if (this.clientCredentials) {
-      headers.authorization = `Bearer ${await this.clientCredentials.getAccessToken()}`;
-    }
     if (request.props.headers) {
-      Object.assign(headers, request.props.headers);
-    }
-    if (request.props.method === 'delete' && request.props.data) {
-      throw new Error('Delete requests cannot have data');
+      Object.assign(headers, normalizeHeaders(request.props.headers));
     }
-    const params =
-      request.props.method === 'get' ? request.props.data : undefined;
-    const data =
-      request.props.method !== 'get' ? request.props.data : undefined;
+    const context: MiddlewareContext = {
+      command: request as CommandRequest<unknown, unknown>,
+      headers,
+      signal: call.signal,
+    };
     try {
-      const response = await this.client.request<Res>({
-        method: request.props.method,
-        url: `${this.baseUrl}${request.props.path}`,
-        headers,
-        data,
-        params,
-      });
-      if (request.props.responseType) {
-        checkContentType(this.log, request.props.responseType, response);
+      return (await runMiddleware(
+        [...this.middleware, this.logging],
+        context,
+        () => this.handle(context, call, timeout)
+      )) as CommandResponse<Res>;
+    } catch (err: unknown) {
+      if (err instanceof ResponseValidationError) {
+        throw err;
       }
+      return this.errorResponse(err, context, call, timeout);
+    } finally {
+      call.dispose();
+    }
+  }
+
+  /**
+   * Sends a command once it has passed through the middleware chain.
+   *
+   * @param context The context of the command.
+   * @param call The signal of the call.
+   * @param timeout The timeout of the call, if any.
+   */
+  protected async handle(
+    context: MiddlewareContext,
+    call: CallSignal,
+    timeout?: number
+  ): Promise<CommandResponse<unknown>> {
+    const {method, path, data} = context.command.props;
+    let attempts = 0;
+    let response: HttpResponse;
+    const url = buildUrl(
+      this.baseUrl,
+      path,
+      method === 'get' ? data : undefined
+    );
+    const headers = {...context.headers};
+    const cached =
+      method === 'get' ? await this.cachedResponse(url, headers) : undefined;
+    const permit = this.circuitBreaker?.allowRequest();
+    if (this.circuitBreaker && permit === undefined) {
       return {
-        data: response.data,
-        httpStatus: response.status,
-        contentType: response.headers['content-type'],
+        error: new CircuitOpenError(
+          {method, path},
+          this.circuitBreaker.status().retryAfter
+        ),
+        httpStatus: 0,
+        attempts,
       };
+    }
+    try {
+      response = await this.request(
+        {
+          method,
+          url,
+          headers,
+          body: method !== 'get' ? data : undefined,
+          signal: context.signal,
+        },
+        attempt => (attempts = attempt),
+        permit
+      );
     } catch (err: unknown) {
-      const [error, httpStatus, contentType] = this.processError(err);
+      return {...this.errorResponse(err, context, call, timeout), attempts};
+    }
+    const metadata = {
+      httpStatus: response.status,
+      contentType: response.headers['content-type'],
+      requestId: requestIdOf(response),
+      attempts,
+      etag: response.headers.etag,
+      lastModified: response.headers['last-modified'],
+    };
+    if (response.status === 304) {
+      return cached
+        ? {
+            ...metadata,
+            data: cached.data,
+            httpStatus: cached.httpStatus,
+            contentType: cached.contentType,
+            etag: metadata.etag ?? cached.etag,
+            lastModified: metadata.lastModified ?? cached.lastModified,
+            cached: true,
+          }
+        : {...metadata, notModified: true};
+    }
+    if (response.status >= 400) {
+      if (response.status === 404 && method === 'get') {
+        await this.responseCache?.delete(url).catch(() => undefined);
+      }
+      return {error: this.responseError(response, method, path), ...metadata};
+    }
+    if (context.command.props.responseType) {
+      checkContentType(this.log, context.command.props.responseType, response);
+    }
+    const validated = this.validateResponse(context.command, {
+      data: response.data,
+      ...metadata,
+    });
+    if (method === 'get' && (metadata.etag || metadata.lastModified)) {
+      await this.responseCache
+        ?.set(url, {
+          data: validated.data,
+          httpStatus: validated.httpStatus,
+          contentType: validated.contentType,
+          etag: metadata.etag,
+          lastModified: metadata.lastModified,
+        })
+        .catch(() => undefined);
+    }
+    return validated;
+  }
+
+  /**
+   * Looks up a cached response for a get and adds the headers that ask the API to only respond with the body if
+   * it has changed. Nothing is looked up if the command already sets its own conditions.
+   *
+   * @param url The URL of the request.
+   * @param headers The headers of the request, which are updated.
+   */
+  protected async cachedResponse(
+    url: string,
+    headers: Record<string, string>
+  ): Promise<CachedResponse | undefined> {
+    if (
+      this.responseCache === undefined ||
+      headers['if-none-match'] !== undefined ||
+      headers['if-modified-since'] !== undefined
+    ) {
+      return undefined;
+    }
+    // Cache failures fall back to an unconditional request
+    const cached = await this.responseCache.get(url).catch(() => undefined);
+    if (cached?.etag) {
+      headers['if-none-match'] = cached.etag;
+    } else if (cached?.lastModified) {
+      headers['if-modified-since'] = cached.lastModified;
+    } else {
+      return undefined;
+    }
+    return cached;
+  }
+
+  /**
+   * Converts an error thrown while sending a command into a response.
+   *
+   * @param err The error thrown.
+   * @param context The context of the command.
+   * @param call The signal of the call.
+   * @param timeout The timeout of the call, if any.
+   */
+  protected errorResponse(
+    err: unknown,
+    context: MiddlewareContext,
+    call: CallSignal,
+    timeout?: number
+  ): CommandResponse<never> {
+    const {method, path} = context.command.props;
+    if (call.signal.aborted) {
       return {
-        error,
-        httpStatus,
-        contentType,
+        error: call.timedOut
+          ? new TimeoutError({method, path}, timeout!)
+          : new CancelledError({method, path}),
+        httpStatus: 0,
       };
     }
+    const [error, httpStatus, contentType] = this.processError(
+      err,
+      method,
+      path
+    );
+    return {error, httpStatus, contentType};
+  }
+
+  /**
+   * Send a command to the Xcor Platform API and return the response data. Failures are thrown as errors
+   * instead of being returned, as is a 304 Not Modified to conditions set by the command or middleware.
+   *
+   * @param request The command to send.
+   * @param options Options for this call such as a timeout or an AbortSignal.
+   */
+  async execute<Req, Res>(
+    request: CommandRequest<Req, Res>,
+    options?: SendOptions
+  ): Promise<Res> {
+    const response = await this.send(request, options);
+    if (response.error) {
+      throw response.error;
+    }
+    if (response.notModified) {
+      throw new NotModifiedError({
+        httpStatus: response.httpStatus,
+        method: request.props.method,
+        path: request.props.path,
+        requestId: response.requestId,
+      });
+    }
+    return response.data as Res;
+  }
+
+  /**
+   * Send a command to the Xcor Platform API and return a result that narrows on the ok field.
+   *
+   * @param request The command to send.
+   * @param options Options for this call such as a timeout or an AbortSignal.
+   */
+  async sendResult<Req, Res>(
+    request: CommandRequest<Req, Res>,
+    options?: SendOptions
+  ): Promise<CommandResult<Res>> {
+    return toCommandResult(await this.send(request, options));
+  }
+
+  /**
+   * Iterate over the items of a paginated command such as FindOrgCommand, following the next cursor
+   * automatically.
+   *
+   * @param command The command for the first page.
+   * @param options Limits on the number of items or pages requested.
+   */
+  paginate<Req extends PageRequest, Item>(
+    command: PaginatedCommand<Req, Item>,
+    options?: PaginateOptions
+  ): Paginator<Req, Item> {
+    return new Paginator(c => this.send(c), command, options);
+  }
+
+  /**
+   * Send many commands of any type with bounded concurrency. Every command gets a response in the returned
+   * array, in the same order as the commands, so failed items can be identified and retried.
+   *
+   * @param commands The commands to send.
+   * @param options The concurrency, whether to stop on the first error and a progress callback.
+   */
+  batch<C extends CommandRequest<unknown, unknown>>(
+    commands: C[],
+    options?: BatchOptions
+  ): Promise<BatchResult<ResponseDataOf<C>>> {
+    return runBatch((c, o) => this.send(c, o), commands, options);
+  }
+
+  /**
+   * Makes an HTTP request, retrying failed attempts according to the retry policy.
+   *
+   * @param request The request to make.
+   * @param onAttempt Called with the attempt number before each attempt.
+   * @param permit The circuit breaker permit for the first attempt. Retries get their own.
+   */
+  protected async request<Res>(
+    request: HttpRequest,
+    onAttempt?: (attempt: number) => void,
+    permit?: CircuitPermit
+  ): Promise<HttpResponse<Res>> {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        onAttempt?.(attempt);
+        let response: HttpResponse<Res> | undefined;
+        let failure: TransportError | undefined;
+        try {
+          await this.rateLimiter?.acquire(request.signal);
+          response = await this.transport.request<Res>(request);
+        } catch (err: unknown) {
+          if (!(err instanceof TransportError)) {
+            throw err;
+          }
+          failure = err;
+        }
+        this.recordOutcome(request, permit, response, failure);
+        if (response && response.status < 400) {
+          return response;
+        }
+        const delay = retryDelay(this.retryPolicy, {
+          method: request.method,
+          attempt,
+          status: response?.status,
+          code: failure?.code,
+          retryAfter: response?.headers['retry-after'],
+        });
+        if (delay !== undefined && this.circuitBreaker?.state !== 'open') {
+          this.log
+            .debug()
+            .str('method', request.method)
+            .str('url', request.url)
+            .num('attempt', attempt)
+            .num('delay', delay)
+            .msg('Retrying request');
+          await sleep(delay, request.signal);
+          permit = this.circuitBreaker?.allowRequest();
+          if (this.circuitBreaker === undefined || permit !== undefined) {
+            continue;
+          }
+        }
+        if (failure) {
+          throw failure;
+        }
+        return response!;
+      }
+    } finally {
+      // Outcomes already recorded release the permit, so this only ends a trial that was interrupted
+      this.circuitBreaker?.release(permit);
+    }
+  }
+
+  /**
+   * Records the outcome of an attempt with the circuit breaker. Responses below 500 count as successes and
+   * cancelled requests count as neither.
+   *
+   * @param request The request that was sent.
+   * @param permit The circuit breaker permit the request was sent with.
+   * @param response The response if one was received.
+   * @param failure The transport error if no response was received.
+   */
+  protected recordOutcome(
+    request: HttpRequest,
+    permit?: CircuitPermit,
+    response?: HttpResponse,
+    failure?: TransportError
+  ): void {
+    if (this.circuitBreaker === undefined) {
+      return;
+    }
+    if (request.signal?.aborted || failure?.code === 'ERR_CANCELED') {
+      this.circuitBreaker.release(permit);
+    } else if (failure || response!.status >= 500) {
+      this.circuitBreaker.recordFailure(permit);
+    } else {
+      this.circuitBreaker.recordSuccess(permit);
+    }
+  }
+
+  /**
+   * Validates the response body against the response schema of the command if one is present.
+   *
+   * @param request The command that was sent.
+   * @param response The response received.
+   */
+  protected validateResponse<Req, Res>(
+    request: CommandRequest<Req, Res>,
+    response: CommandResponse<Res>
+  ): CommandResponse<Res> {
+    const schema = request.props.responseSchema;
+    if (schema === undefined || this.responseValidation === 'off') {
+      return response;
+    }
+    const result = schema.safeParse(response.data);
+    if (result.success) {
+      return {...response, data: result.data};
+    }
+    if (this.responseValidation === 'strict') {
+      throw new ResponseValidationError(
+        result.error.issues,
+        response.httpStatus
+      );
+    }
+    this.log
+      .warn()
+      .str('path', request.props.path)
+      .unknown('issues', result.error.issues)
+      .msg('Response failed validation');
+    return {...response, validationIssues: result.error.issues};
   }
 
   /**
    * Generate an OpenAPI YAML document for the Xcor Platform API.
+   *
+   * @deprecated Use generateOpenApi which accepts options for the format, servers and metadata
    */
   static openapiYaml(): string {
-    const registry = new OpenAPIRegistry();
-    InviteCommand.register(registry);
-    UserInfoCommand.register(registry);
-    CreateAppCommand.register(registry);
-    GetAppCommand.register(registry);
-
-    const generator = new OpenApiGeneratorV31(registry.definitions);
-    const result = generator.generateDocument({
-      openapi: '3.1.0',
-      info: {
-        version: '1.0',
-        title: 'Xcor Platform API',
-      },
-      servers: [
-        {
-          url: 'https://api.xcorplatform.com',
-        },
-      ],
-    });
-    return yaml.dump(result);
+    return generateOpenApi();
   }
 }